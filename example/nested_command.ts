@@ -0,0 +1,39 @@
+import { z } from "zod";
+// import { parser } from "zod-opts";
+import { command, parser } from "../src/index";
+
+const remote = command("remote")
+  .description("Manage remotes")
+  .subcommand(
+    command("add")
+      .options({
+        verbose: {
+          type: z.boolean().default(false),
+        },
+      })
+      .args([
+        {
+          name: "url",
+          type: z.string(),
+        },
+      ])
+      .action((parsed) => {
+        // parsed is inferred as { verbose: boolean, url: string }
+        console.log("remote add", parsed);
+      })
+  )
+  .subcommand(
+    command("remove")
+      .args([
+        {
+          name: "name",
+          type: z.string(),
+        },
+      ])
+      .action((parsed) => {
+        // parsed is inferred as { name: string }
+        console.log("remote remove", parsed);
+      })
+  );
+
+parser().subcommand(remote).parse();
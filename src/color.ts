@@ -0,0 +1,52 @@
+import type { OutputConfig, Theme, ThemeConfig } from "./type";
+
+function ansi(open: number, close: number): (text: string) => string {
+  return (text) => `\u001b[${open}m${text}\u001b[${close}m`;
+}
+
+export const PLAIN_THEME: Theme = {
+  heading: (text) => text,
+  flag: (text) => text,
+  placeholder: (text) => text,
+  required: (text) => text,
+  error: (text) => text,
+};
+
+export const ANSI_THEME: Theme = {
+  heading: ansi(1, 22), // bold
+  flag: ansi(36, 39), // cyan
+  placeholder: ansi(32, 39), // green
+  required: ansi(33, 39), // yellow
+  error: ansi(31, 39), // red
+};
+
+// NO_COLOR > FORCE_COLOR > TTY detection. See https://no-color.org/
+export function shouldUseColor(
+  stream: { isTTY?: boolean } = process.stdout,
+  env: NodeJS.ProcessEnv = process.env
+): boolean {
+  if (env.NO_COLOR !== undefined && env.NO_COLOR !== "") {
+    return false;
+  }
+  if (env.FORCE_COLOR !== undefined) {
+    return !["0", "false"].includes(env.FORCE_COLOR);
+  }
+  return stream.isTTY === true;
+}
+
+// Writers replaced by output() are not terminals, so they are colored only with FORCE_COLOR
+export function shouldUseColorForOutput(
+  output: OutputConfig,
+  name: "stdout" | "stderr",
+  env: NodeJS.ProcessEnv = process.env
+): boolean {
+  return shouldUseColor(output[name] !== undefined ? {} : process[name], env);
+}
+
+// Custom theme is also used only when color is enabled
+export function resolveTheme(
+  config: ThemeConfig = {},
+  useColor: boolean = shouldUseColor()
+): Theme | undefined {
+  return useColor ? { ...ANSI_THEME, ...config } : undefined;
+}
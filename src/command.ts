@@ -2,28 +2,32 @@ import { type z, type ZodObject, type ZodRawShape } from "zod";
 
 import * as helper from "./parser_helper";
 import type {
+  ActionCallback,
   GenerateZodShape,
   Handler,
   InternalCommand,
   Narrow,
+  OptionGroupRule,
   Options,
   PositionalArguments,
   ValidateCallback,
+  ValidateResult,
 } from "./type";
 import * as util from "./util";
 
-type ActionCallback<T extends ZodRawShape> = (
-  parsed: z.infer<ZodObject<T>>
-) => true | string;
-
 interface CommandState {
   name?: string;
   description?: string;
+  hidden?: boolean;
+  deprecated?: string;
+  renamedFrom?: string;
   options: Options;
   positionalArgs: PositionalArguments;
+  optionGroups: OptionGroupRule[];
   validation?: ValidateCallback<ZodRawShape>;
   handler?: Handler<ZodRawShape>;
   action?: ActionCallback<ZodRawShape>;
+  commands: Command[];
 }
 
 export class Command<
@@ -32,40 +36,64 @@ export class Command<
 > {
   private readonly _name: string | undefined;
   private _description: string | undefined;
+  private _hidden: boolean | undefined;
+  private _deprecated: string | undefined;
+  private _renamedFrom: string | undefined;
   private readonly _options: Options = {};
   private readonly _positionalArgs: PositionalArguments = [];
+  private _optionGroups: OptionGroupRule[] = [];
   private _validation: ValidateCallback<ZodRawShape> | undefined;
   private readonly _handler: Handler<ZodRawShape> | undefined;
   private _action: ActionCallback<ZodRawShape> | undefined;
+  private _commands: Command[] = [];
 
   constructor({
     name,
     description,
+    hidden,
+    deprecated,
+    renamedFrom,
     options,
     positionalArgs,
+    optionGroups,
     validation,
     handler,
     action,
+    commands,
   }: {
     name?: string;
     description?: string;
+    hidden?: boolean;
+    deprecated?: string;
+    renamedFrom?: string;
     options?: Options;
     positionalArgs?: Narrow<PositionalArguments>;
+    optionGroups?: OptionGroupRule[];
     validation?: ValidateCallback<ZodRawShape>;
     handler?: Handler<ZodRawShape>;
     action?: ActionCallback<ZodRawShape>;
+    commands?: Command[];
   } = {}) {
     this._name = name;
     this._description = description;
+    this._hidden = hidden;
+    this._deprecated = deprecated;
+    this._renamedFrom = renamedFrom;
     if (options !== undefined) {
       this._options = options;
     }
     if (positionalArgs !== undefined) {
       this._positionalArgs = positionalArgs;
     }
+    if (optionGroups !== undefined) {
+      this._optionGroups = optionGroups;
+    }
     this._validation = validation;
     this._handler = handler;
     this._action = action;
+    if (commands !== undefined) {
+      this._commands = commands;
+    }
   }
 
   description(description: string): this {
@@ -73,6 +101,24 @@ export class Command<
     return this;
   }
 
+  // Hidden command is parsed, but shown only by --help-all
+  hidden(hidden: boolean = true): this {
+    this._hidden = hidden;
+    return this;
+  }
+
+  // Using the command writes the message as a warning
+  deprecated(message: string): this {
+    this._deprecated = message;
+    return this;
+  }
+
+  // Accepts the old name with a warning
+  renamedFrom(oldName: string): this {
+    this._renamedFrom = oldName;
+    return this;
+  }
+
   options<TNewOptions extends Options>(
     options: TNewOptions
   ): Command<TNewOptions, TPositionalArguments> {
@@ -99,60 +145,132 @@ export class Command<
     });
   }
 
+  // Exactly one of the options must be specified
+  exactlyOneOf(names: Array<keyof TOptions & string>): this {
+    util.validateOptionGroup(names, this._options);
+    this._optionGroups = this._optionGroups.concat({
+      kind: "exactlyOneOf",
+      names,
+    });
+    return this;
+  }
+
+  // At least one of the options must be specified
+  atLeastOneOf(names: Array<keyof TOptions & string>): this {
+    util.validateOptionGroup(names, this._options);
+    this._optionGroups = this._optionGroups.concat({
+      kind: "atLeastOneOf",
+      names,
+    });
+    return this;
+  }
+
   validation<TShape extends GenerateZodShape<TOptions, TPositionalArguments>>(
-    validation: (parsed: z.infer<ZodObject<TShape>>) => true | string
+    validation: (
+      parsed: z.infer<ZodObject<TShape>>
+    ) => ValidateResult | Promise<ValidateResult>
   ): this {
     this._validation = validation as ValidateCallback<ZodRawShape>;
     return this;
   }
 
+  // Async action and returned exit code are supported by parseAsync()
   action<TShape extends GenerateZodShape<TOptions, TPositionalArguments>>(
-    action: (parsed: z.infer<ZodObject<TShape>>) => void
+    action: (parsed: z.infer<ZodObject<TShape>>) => unknown
   ): this {
     this._action = action as ActionCallback<ZodRawShape>;
     return this;
   }
 
-  toInternalCommand(): InternalCommand {
+  subcommand(command: Command): this {
+    this._validateSubcommandParent();
+    const name = command.toInternalCommand().name;
+    if (this._commands.some((c) => c.toInternalCommand().name === name)) {
+      throw new Error(`Duplicated command name: ${name}`);
+    }
+
+    this._commands = this._commands.concat([command]);
+    return this;
+  }
+
+  toInternalCommand(envPrefix?: string): InternalCommand {
     this._validateMultipleCommands();
     if (this._name === undefined) {
       throw new Error("name is required for command");
     }
-    return {
+    const internalCommand: InternalCommand = {
       name: this._name,
       description: this._description,
-      options: helper.generateInternalOptions(this._options),
+      hidden: this._hidden,
+      deprecated: this._deprecated,
+      renamedFrom: this._renamedFrom,
+      options: helper.generateInternalOptions(
+        this._options,
+        envPrefix,
+        this._optionGroups
+      ),
       positionalArgs: helper.generateInternalPositionalArguments(
         this._positionalArgs
       ),
     };
+    if (this._commands.length !== 0) {
+      internalCommand.commands = this._commands.map((command) =>
+        command.toInternalCommand(envPrefix)
+      );
+    }
+    return internalCommand;
+  }
+
+  _getSubcommands(): Command[] {
+    return this._commands;
   }
 
   private _currentState(): CommandState {
     return {
       name: this._name,
       description: this._description,
+      hidden: this._hidden,
+      deprecated: this._deprecated,
+      renamedFrom: this._renamedFrom,
       options: this._options,
       positionalArgs: this._positionalArgs,
+      optionGroups: this._optionGroups,
       validation: this._validation,
       handler: this._handler,
       action: this._action,
+      commands: this._commands,
     };
   }
 
   private _validateMultipleCommands(): void {
+    if (this._commands.length !== 0) {
+      this._validateSubcommandParent();
+      return;
+    }
     if (this._action === undefined) {
       throw new Error("action is required for command");
     }
   }
 
+  // zod-opts doesn't support subcommand with command options, args or action
+  private _validateSubcommandParent(): void {
+    if (Object.keys(this._options).length > 0) {
+      throw new Error("Cannot add subcommand to command with options().");
+    }
+    if (Object.keys(this._positionalArgs).length > 0) {
+      throw new Error("Cannot add subcommand to command with args().");
+    }
+    if (this._action !== undefined) {
+      throw new Error("Cannot add subcommand to command with action().");
+    }
+  }
+
   _toParseCommand(): {
     shape: ZodRawShape;
     internalCommand: InternalCommand;
     action: ActionCallback<ZodRawShape>;
     validation?: ValidateCallback<ZodRawShape>;
   } {
-    this._validateMultipleCommands();
     const action = this._action;
     if (action === undefined) {
       throw new Error("action is required for command");
@@ -2,22 +2,48 @@ import path from "node:path";
 
 import { z, type ZodObject, type ZodRawShape } from "zod";
 
-import { type Command } from "./command";
-import { ParseError } from "./error";
-import { generateCommandHelp, generateGlobalCommandHelp } from "./help";
-import { type CommandParsed, parseMultipleCommands } from "./internal_parser";
+import { PLAIN_THEME, resolveTheme, shouldUseColorForOutput } from "./color";
+import { type Command, command } from "./command";
+import { safeParseWithErrorMap } from "./compat";
+import { generateCompletion } from "./completion";
+import { CommandError, ParseError } from "./error";
+import {
+  generateCommandHelp,
+  generateCommandHelpAll,
+  generateGlobalCommandHelp,
+} from "./help";
+import {
+  type CommandParsed,
+  findCommandByName,
+  parseMultipleCommands,
+} from "./internal_parser";
 import { debugLog } from "./logger";
+import {
+  DEFAULT_MESSAGES,
+  localizeParseError,
+  resolveMessages,
+} from "./messages";
+import * as helper from "./parser_helper";
 import type {
+  CompletionShell,
   Handler,
+  HelpFormat,
   InternalCommand,
+  InternalOption,
+  InternalPositionalArgument,
+  MessagesConfig,
+  OutputConfig,
+  ParseResult,
   ParseResultError,
   ParseResultHelp,
   ParseResultMatch,
   ParseResultVersion,
-  ValidateCallback,
+  Theme,
+  ThemeConfig,
 } from "./type";
+import { COMPLETION_SHELLS } from "./type";
 import * as util from "./util";
-import { validateMultipleCommands } from "./validator";
+import { validateCollectingErrors } from "./validator";
 
 interface ParseInput {
   args: string[];
@@ -33,6 +59,13 @@ export class CommandParser {
   private _version: string | undefined;
   private _description: string | undefined;
   private _handler: Handler<ZodRawShape> | undefined;
+  private _output: OutputConfig = {};
+  private _envPrefix: string | undefined;
+  private _allowAbbreviations = false;
+  private _groupOrder: string[] | undefined;
+  private _helpWidth: number | undefined;
+  private _theme: ThemeConfig | undefined;
+  private _messages: MessagesConfig | undefined;
   private _commands: Command[] = [];
 
   constructor({
@@ -41,12 +74,26 @@ export class CommandParser {
     description,
     handler,
     commands,
+    output,
+    envPrefix,
+    allowAbbreviations,
+    groupOrder,
+    helpWidth,
+    theme,
+    messages,
   }: {
     name?: string;
     version?: string;
     description?: string;
     handler?: Handler<ZodRawShape>;
     commands?: Command[];
+    output?: OutputConfig;
+    envPrefix?: string;
+    allowAbbreviations?: boolean;
+    groupOrder?: string[];
+    helpWidth?: number;
+    theme?: ThemeConfig;
+    messages?: MessagesConfig;
   } = {}) {
     this._name = name;
     this._version = version;
@@ -55,6 +102,17 @@ export class CommandParser {
     if (commands !== undefined) {
       this._commands = commands;
     }
+    if (output !== undefined) {
+      this._output = output;
+    }
+    this._envPrefix = envPrefix;
+    if (allowAbbreviations !== undefined) {
+      this._allowAbbreviations = allowAbbreviations;
+    }
+    this._groupOrder = groupOrder;
+    this._helpWidth = helpWidth;
+    this._theme = theme;
+    this._messages = messages;
   }
 
   name(name: string): this {
@@ -72,6 +130,45 @@ export class CommandParser {
     return this;
   }
 
+  output(output: OutputConfig): this {
+    this._output = { ...this._output, ...output };
+    return this;
+  }
+
+  envPrefix(prefix: string): this {
+    util.validateEnvPrefix(prefix);
+    this._envPrefix = prefix;
+    return this;
+  }
+
+  // Unique prefixes of command names and long option names are accepted. ex. rem for remote
+  allowAbbreviations(allow = true): this {
+    this._allowAbbreviations = allow;
+    return this;
+  }
+
+  groupOrder(groupOrder: string[]): this {
+    this._groupOrder = groupOrder;
+    return this;
+  }
+
+  helpWidth(width: number): this {
+    util.validateHelpWidth(width);
+    this._helpWidth = width;
+    return this;
+  }
+
+  theme(theme: ThemeConfig): this {
+    this._theme = { ...this._theme, ...theme };
+    return this;
+  }
+
+  // Text of help, errors and warnings. Entries not specified stay in English.
+  messages(messages: MessagesConfig): this {
+    this._messages = { ...this._messages, ...messages };
+    return this;
+  }
+
   _internalHandler(
     handler: (
       arg0:
@@ -101,44 +198,150 @@ export class CommandParser {
   }
 
   showHelp(commandName?: string): void {
-    const help = this.getHelp(commandName);
-    console.log(help); // eslint-disable-line no-console
+    const help = this._generateHelp(
+      commandName,
+      resolveTheme(this._theme, shouldUseColorForOutput(this._output, "stdout"))
+    );
+    util.resolveOutput(this._output).stdout(help);
+  }
+
+  getCompletion(shell: CompletionShell): string {
+    return generateCompletion({
+      shell,
+      name: this._scriptName(),
+      command: {
+        name: this._scriptName(),
+        options: [],
+        positionalArgs: [],
+        commands: this._commands.map((command) =>
+          command.toInternalCommand(this._envPrefix)
+        ),
+      },
+      version: this._version,
+    });
+  }
+
+  // Adds built-in "completion <shell>" command which prints the completion script
+  completion(commandName: string = "completion"): this {
+    return this.subcommand(
+      command(commandName)
+        .description(resolveMessages(this._messages).completionDescription)
+        .args([{ name: "shell", type: z.enum(COMPLETION_SHELLS) }])
+        .action(({ shell }) => {
+          util.resolveOutput(this._output).stdout(this.getCompletion(shell));
+        })
+    );
   }
 
   getHelp(commandName?: string): string {
+    return this._generateHelp(commandName);
+  }
+
+  private _generateHelp(commandName?: string, theme?: Theme): string {
     if (commandName === undefined) {
       const internalCommands = this._commands.map((command) =>
-        command.toInternalCommand()
+        command.toInternalCommand(this._envPrefix)
       );
       return generateGlobalCommandHelp({
         commands: internalCommands,
         name: this._scriptName(),
         description: this._description,
         version: this._version,
+        format: this._helpFormat(theme),
       });
     }
 
-    const foundCommand = this._commands.find(
-      (command) => command.toInternalCommand().name === commandName
-    );
+    const foundCommand = this._findCommand(commandName);
     if (foundCommand === undefined) {
       throw new Error(`Command not found: ${commandName ?? ""}`);
     }
 
     return generateCommandHelp({
-      command: foundCommand.toInternalCommand(),
+      command: foundCommand.toInternalCommand(this._envPrefix),
+      commandName,
       name: this._name,
       version: this._version,
+      format: this._helpFormat(theme),
+      groupOrder: this._groupOrder,
     });
   }
 
   parse(args?: string[]): void {
+    const { parsed, commandName } = this._handleResult(this.safeParse(args));
+    const { action } = this._toParseCommand(commandName);
+    const actionResult = action(parsed);
+    if (actionResult instanceof Promise) {
+      // the rejection is not left unhandled. The error below reports the misuse
+      actionResult.catch(() => {});
+      throw new Error("Async action is only supported by parseAsync()");
+    }
+  }
+
+  // Resolves with the return value of the action.
+  // A non-zero number returned by the action is passed to the exit of output(). An error thrown by the action is written to stderr, exits with 1 and is rethrown if exit returns.
+  async parseAsync(args?: string[]): Promise<unknown> {
+    const result = this._parseWithoutCustomValidation(args);
+    const validationError =
+      result.type === "match"
+        ? helper.createCustomValidationError(
+            await helper.runCustomValidationAsync(
+              this._toParseCommand(result.commandName).validation,
+              result.parsed
+            ),
+            result.help,
+            result.commandName
+          )
+        : undefined;
+    const { parsed, commandName } = this._handleResult(
+      validationError ?? result
+    );
+    const { action } = this._toParseCommand(commandName);
+    const output = util.resolveOutput(this._output);
+    let actionResult: unknown;
+    try {
+      actionResult = await action(parsed);
+    } catch (e) {
+      const theme =
+        resolveTheme(
+          this._theme,
+          shouldUseColorForOutput(this._output, "stderr")
+        ) ?? PLAIN_THEME;
+      output.stderr(theme.error(e instanceof Error ? e.message : String(e)));
+      output.exit(1);
+      throw e;
+    }
+    // exit(0) would end the process before stdout is flushed and the promise resolves
+    if (typeof actionResult === "number" && actionResult !== 0) {
+      output.exit(actionResult);
+    }
+    return actionResult;
+  }
+
+  // Same as parse(), but returns the result instead of printing and exiting. The action is not called.
+  safeParse(args?: string[]): ParseResult<Record<string, unknown>> {
+    const result = this._parseWithoutCustomValidation(args);
+    if (result.type !== "match") {
+      return result;
+    }
+    const validationError = helper.createCustomValidationError(
+      helper.runCustomValidation(
+        this._toParseCommand(result.commandName).validation,
+        result.parsed
+      ),
+      result.help,
+      result.commandName
+    );
+    return validationError ?? result;
+  }
+
+  private _parseWithoutCustomValidation(
+    args: string[] | undefined
+  ): ParseResult<Record<string, unknown>> {
     const validArgs = args ?? process.argv.slice(2);
 
-    const commands = this._commands.map((command) => {
-      return command._toParseCommand();
-    });
-    const internalCommands = commands.map((command) => command.internalCommand);
+    const internalCommands = this._commands.map((command) =>
+      command.toInternalCommand(this._envPrefix)
+    );
 
     const internalResult = this._internalParseAndValidate({
       args: validArgs,
@@ -146,33 +349,86 @@ export class CommandParser {
       scriptName: this._scriptName(),
     });
     if (internalResult.type !== "match") {
-      this._handleAndExit(internalResult);
+      return internalResult;
     }
-    const usedCommandIndex = internalCommands.findIndex(
-      (command) => internalResult.commandName === command.name
+    const { shape, internalCommand } = this._toParseCommand(
+      internalResult.commandName
     );
-    if (usedCommandIndex < 0) {
-      throw new Error(`Command not found: ${internalResult.commandName ?? ""}`);
-    }
-    const { shape, action, validation } = commands[usedCommandIndex];
 
-    const zodParseResult = this._zodParse(internalResult, shape);
+    const zodParseResult = this._zodParse(internalResult, shape, [
+      ...internalCommand.options,
+      ...internalCommand.positionalArgs,
+    ]);
     if (!zodParseResult.success) {
-      this._handleAndExit(zodParseResult.error);
+      return zodParseResult.error;
     }
-    const validationError = this._validateByCustomValidation(
-      validation,
-      zodParseResult.value,
-      internalResult.help
-    );
-    if (validationError !== undefined) {
-      this._handleAndExit(validationError);
+    return { ...internalResult, parsed: zodParseResult.value };
+  }
+
+  private _toParseCommand(
+    commandName: string | undefined
+  ): ReturnType<Command["_toParseCommand"]> {
+    const usedCommand =
+      commandName !== undefined ? this._findCommand(commandName) : undefined;
+    if (usedCommand === undefined) {
+      throw new Error(`Command not found: ${commandName ?? ""}`);
     }
+    return usedCommand._toParseCommand();
+  }
 
+  private _handleResult(
+    result: ParseResult<Record<string, unknown>>
+  ): ParseResultMatch<Record<string, unknown>> {
+    if (result.type !== "match") {
+      this._handleAndExit(result);
+    }
+    util.writeWarnings(
+      result,
+      util.resolveOutput(this._output),
+      resolveMessages(this._messages)
+    );
     if (this._handler !== undefined) {
-      this._handler({ ...internalResult, parsed: zodParseResult.value });
+      this._handler(result);
+    }
+    return result;
+  }
+
+  // Help in results is plain. It is rendered again with the theme when the stream it is written to is colored.
+  private _withStyledHelp<
+    R extends ParseResultError | ParseResultHelp | ParseResultVersion
+  >(result: R): R {
+    const theme = resolveTheme(
+      this._theme,
+      shouldUseColorForOutput(
+        this._output,
+        result.type === "error" ? "stderr" : "stdout"
+      )
+    );
+    if (theme === undefined || result.type === "version") {
+      return result;
     }
-    action(zodParseResult.value);
+    const internalCommands = this._commands.map((command) =>
+      command.toInternalCommand(this._envPrefix)
+    );
+    // help of --help-all differs from the plain help
+    const showHidden =
+      result.type === "help" &&
+      result.help !==
+        this._generateParseHelp(
+          internalCommands,
+          result.commandName,
+          this._scriptName()
+        );
+    return {
+      ...result,
+      help: this._generateParseHelp(
+        internalCommands,
+        result.commandName,
+        this._scriptName(),
+        theme,
+        showHidden
+      ),
+    };
   }
 
   private _handleAndExit(
@@ -181,7 +437,30 @@ export class CommandParser {
     if (this._handler != null) {
       this._handler(handlerArg);
     }
-    util.errorExit(handlerArg, this._version);
+    util.errorExit(
+      this._withStyledHelp(handlerArg),
+      this._version,
+      util.resolveOutput(this._output),
+      resolveTheme(this._theme, shouldUseColorForOutput(this._output, "stderr"))
+    );
+  }
+
+  private _findCommand(commandName: string): Command | undefined {
+    return util
+      .flattenCommands(
+        this._commands,
+        (command) => command.toInternalCommand().name,
+        (command) => command._getSubcommands()
+      )
+      .find((entry) => entry.commandName === commandName)?.command;
+  }
+
+  private _helpFormat(theme?: Theme): HelpFormat {
+    return {
+      width: util.resolveHelpWidth(this._helpWidth),
+      theme,
+      messages: resolveMessages(this._messages),
+    };
   }
 
   private _scriptName(): string {
@@ -194,35 +473,60 @@ export class CommandParser {
 
   private _generateParseHelp(
     commands: InternalCommand[],
-    selectedCommand: InternalCommand | undefined,
-    scriptName: string | undefined
+    commandName: string | undefined,
+    scriptName: string | undefined,
+    theme?: Theme,
+    showHidden: boolean = false
   ): string {
+    const selectedCommand =
+      commandName !== undefined
+        ? findCommandByName(commands, commandName)
+        : undefined;
+    if (showHidden) {
+      return generateCommandHelpAll({
+        commands,
+        command: selectedCommand,
+        commandName,
+        name: scriptName,
+        description: this._description,
+        version: this._version,
+        format: this._helpFormat(theme),
+        groupOrder: this._groupOrder,
+      });
+    }
     return selectedCommand === undefined
       ? generateGlobalCommandHelp({
           commands,
           name: scriptName,
           description: this._description,
           version: this._version,
+          format: this._helpFormat(theme),
         })
       : generateCommandHelp({
           command: selectedCommand,
+          commandName,
           name: scriptName,
           version: this._version,
+          format: this._helpFormat(theme),
+          groupOrder: this._groupOrder,
         });
   }
 
   private _handleInternalParseHelpAndVersion(
     parsed: CommandParsedHelp | CommandParsedVersion,
-    selectedCommand: InternalCommand | undefined,
     commands: InternalCommand[],
     scriptName: string
   ): ParseResultHelp | ParseResultVersion {
-    const help = this._generateParseHelp(commands, selectedCommand, scriptName);
-
     if (parsed.isHelp) {
       return {
         type: "help",
-        help,
+        help: this._generateParseHelp(
+          commands,
+          parsed.commandName,
+          scriptName,
+          undefined,
+          parsed.isHelpAll
+        ),
         exitCode: 0,
         commandName: parsed.commandName,
       };
@@ -231,7 +535,7 @@ export class CommandParser {
     if (parsed.isVersion) {
       return {
         type: "version",
-        help,
+        help: this._generateParseHelp(commands, parsed.commandName, scriptName),
         exitCode: 0,
       };
     }
@@ -243,44 +547,65 @@ export class CommandParser {
     commands: InternalCommand[],
     scriptName: string | undefined
   ): ParseResultError {
-    const error = e;
-    const selectedCommand =
-      error.commandName !== undefined
-        ? commands.find((command) => command.name === error.commandName)
-        : undefined;
     return {
       type: "error",
-      error: e,
+      error: localizeParseError(e, resolveMessages(this._messages)),
       exitCode: 1,
-      help: this._generateParseHelp(commands, selectedCommand, scriptName),
-      commandName: error.commandName,
+      help: this._generateParseHelp(commands, e.commandName, scriptName),
+      commandName: e.commandName,
     };
   }
 
   private _handleInternalParseMatch(
     parsed: CommandParsed,
     selectedCommand: InternalCommand,
+    args: string[],
     commands: InternalCommand[],
     scriptName: string
   ): ParseResultMatch<Record<string, unknown>> {
     const commandName = parsed.commandName ?? selectedCommand.name;
-    const { options: validOptions, positionalArgs: validPositionalArguments } =
-      validateMultipleCommands(
-        parsed,
-        selectedCommand.options,
-        selectedCommand.positionalArgs,
-        commandName
-      );
+    const {
+      options: validOptions,
+      positionalArgs: validPositionalArguments,
+      errors,
+    } = validateCollectingErrors(
+      parsed,
+      selectedCommand.options,
+      selectedCommand.positionalArgs
+    );
     debugLog("createInternalParserAndParse", {
       validOptions: JSON.stringify(validOptions),
       validPositionalArguments: JSON.stringify(validPositionalArguments),
     });
-    const validOptionMap = Object.fromEntries(
-      validOptions.map((option) => [option.name, option.value])
+    const validOptionMap = helper.generateParsedValues(
+      validOptions,
+      selectedCommand.options
     );
-    const validPositionalArgMap = Object.fromEntries(
-      validPositionalArguments.map((option) => [option.name, option.value])
+    const validPositionalArgMap = helper.generateParsedValues(
+      validPositionalArguments,
+      selectedCommand.positionalArgs
     );
+    const messages = resolveMessages(this._messages);
+    if (errors !== undefined) {
+      const error = helper.combineWithZodErrors(
+        errors,
+        this._toParseCommand(commandName).shape,
+        { ...validOptionMap, ...validPositionalArgMap },
+        [...selectedCommand.options, ...selectedCommand.positionalArgs],
+        messages
+      );
+      error.commandName = commandName;
+      throw error;
+    }
+    const warnings = helper
+      .generateCommandWarnings(parsed.resolvedCommands ?? [], messages)
+      .concat(
+        helper.generateOptionWarnings(
+          parsed.candidates,
+          selectedCommand.options,
+          messages
+        )
+      );
 
     return {
       type: "match",
@@ -289,7 +614,8 @@ export class CommandParser {
         ...validPositionalArgMap,
       },
       commandName,
-      help: this._generateParseHelp(commands, selectedCommand, scriptName),
+      help: this._generateParseHelp(commands, commandName, scriptName),
+      ...(warnings.length !== 0 ? { warnings } : {}),
     };
   }
 
@@ -304,33 +630,38 @@ export class CommandParser {
     | ParseResultMatch<Record<string, unknown>> {
     try {
       if (args.length === 0) {
-        throw new ParseError("No command specified");
+        throw new CommandError(
+          "MISSING_COMMAND",
+          DEFAULT_MESSAGES.missingCommand
+        );
       }
 
       const parsed = parseMultipleCommands({
         args,
         commands,
+        allowAbbreviations: this._allowAbbreviations,
       });
       debugLog("parseMultipleCommands", {
         parsed: JSON.stringify(parsed),
       });
-      const selectedCommand = commands.find(
-        (command) => command.name === parsed.commandName
-      );
       if (parsed.isHelp || parsed.isVersion) {
         return this._handleInternalParseHelpAndVersion(
           parsed as CommandParsedHelp | CommandParsedVersion,
-          selectedCommand,
           commands,
           scriptName
         );
       }
+      const selectedCommand =
+        parsed.commandName !== undefined
+          ? findCommandByName(commands, parsed.commandName)
+          : undefined;
       if (selectedCommand === undefined) {
         throw new Error(`Command not found: ${parsed.commandName ?? ""}`);
       }
       return this._handleInternalParseMatch(
         parsed,
         selectedCommand,
+        args,
         commands,
         scriptName
       );
@@ -345,18 +676,25 @@ export class CommandParser {
 
   private _zodParse<T extends Record<string, unknown>>(
     prevResult: ParseResultMatch<T>,
-    shape: ZodRawShape
+    shape: ZodRawShape,
+    items: Array<InternalOption | InternalPositionalArgument>
   ): { success: true; value: T } | { success: false; error: ParseResultError } {
-    const result = z.object(shape).safeParse(prevResult.parsed);
+    const messages = resolveMessages(this._messages);
+    const result = safeParseWithErrorMap(
+      z.object(shape),
+      prevResult.parsed,
+      messages.zodErrorMap
+    );
     if (!result.success) {
-      const firstError: z.ZodIssue = result.error.issues[0];
       return {
         success: false,
         error: {
           type: "error",
-          error: new ParseError(
-            `${firstError.message}: ${firstError.path.join("")}`,
-            result.error
+          error: helper.createZodParseError(
+            result.error,
+            prevResult.parsed,
+            items,
+            messages
           ),
           help: prevResult.help,
           exitCode: 1,
@@ -366,32 +704,4 @@ export class CommandParser {
     }
     return { success: true, value: result.data as T };
   }
-
-  private _validateByCustomValidation<T extends Record<string, unknown>>(
-    validation: ValidateCallback<ZodRawShape> | undefined,
-    value: T,
-    help: string
-  ): ParseResultError | undefined {
-    if (validation === undefined) {
-      return undefined;
-    }
-    const validateResult = (() => {
-      try {
-        return validation(value);
-      } catch (e) {
-        if (e instanceof Error) {
-          return e.message;
-        }
-        throw e;
-      }
-    })();
-    if (validateResult !== true) {
-      return {
-        type: "error",
-        error: new ParseError(validateResult),
-        help,
-        exitCode: 1,
-      };
-    }
-  }
 }
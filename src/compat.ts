@@ -7,6 +7,8 @@
 
 import type { ZodTypeAny } from "zod";
 
+import type { ZodErrorMap, ZodIssueLike } from "./type";
+
 interface MaybeZod extends Record<string, unknown> {
   parse?: unknown;
 }
@@ -99,6 +101,8 @@ const V3_TO_V4_TYPE_MAP: Record<string, string> = {
   ZodPromise: "promise",
   ZodReadonly: "readonly",
   ZodRecord: "record",
+  ZodDate: "date",
+  ZodBigInt: "bigint",
 };
 
 function normalizeDefType(def: SchemaDef): string {
@@ -240,6 +244,26 @@ export function getArrayElementType(
   return undefined;
 }
 
+/**
+ * Check if the string schema has the format
+ * v3: def.checks contains { kind: format }
+ * v4: def.format of z.url(), or def.checks contains a check with def.format for z.string().url()
+ */
+export function hasStringFormat(schema: ZodTypeAny, format: string): boolean {
+  const def = getDef(schema);
+  if (def.format === format) {
+    return true;
+  }
+  const checks = Array.isArray(def.checks) ? (def.checks as unknown[]) : [];
+  return checks.some((check) => {
+    if (!isRecord(check)) {
+      return false;
+    }
+    const v4Check = check._zod as { def?: { format?: unknown } } | undefined;
+    return check.kind === format || v4Check?.def?.format === format;
+  });
+}
+
 /**
  * Get the description from a schema
  */
@@ -255,3 +279,32 @@ export function getDescription(schema: ZodTypeAny): string | undefined {
   }
   return undefined;
 }
+
+type SafeParseReturn = ReturnType<ZodTypeAny["safeParse"]>;
+
+/**
+ * Parse with an error map which translates messages of issues
+ * v3: params.errorMap returns { message }. ctx.defaultError is the message of zod
+ * v4: params.error returns a message. undefined falls back to the message of zod
+ */
+export function safeParseWithErrorMap(
+  schema: ZodTypeAny,
+  data: unknown,
+  errorMap?: ZodErrorMap
+): SafeParseReturn {
+  if (errorMap === undefined) {
+    return schema.safeParse(data);
+  }
+  const params = isZodV4(schema)
+    ? { error: (issue: ZodIssueLike) => errorMap(issue) }
+    : {
+        errorMap: (issue: ZodIssueLike, ctx: { defaultError: string }) => ({
+          message: errorMap(issue) ?? ctx.defaultError,
+        }),
+      };
+  const safeParse = schema.safeParse.bind(schema) as (
+    data: unknown,
+    params: unknown
+  ) => SafeParseReturn;
+  return safeParse(data, params);
+}
@@ -0,0 +1,304 @@
+import { getBuiltInOptions } from "./help";
+import type { CompletionShell, InternalCommand, InternalOption } from "./type";
+import { aliasFlags, assertNever } from "./util";
+
+interface CompletionNode {
+  path: string; // ex. "" for root, "remote add" for nested command
+  command: InternalCommand;
+}
+
+function flattenNodes(
+  command: InternalCommand,
+  parentPath: string[] = []
+): CompletionNode[] {
+  return visibleCommands(command).flatMap((child) => {
+    const path = parentPath.concat(child.name);
+    return [{ path: path.join(" "), command: child }].concat(
+      flattenNodes(child, path)
+    );
+  });
+}
+
+// hidden commands and options are not completed
+function visibleCommands(command: InternalCommand): InternalCommand[] {
+  return (command.commands ?? []).filter((child) => child.hidden !== true);
+}
+
+function toIdentifier(name: string): string {
+  return name.replace(/[^A-Za-z0-9_]/g, "_");
+}
+
+function optionRequiresValue(option: InternalOption): boolean {
+  return option.type !== "boolean" && option.count !== true;
+}
+
+function optionFlags(option: InternalOption): string[] {
+  return [`--${option.name}`].concat(aliasFlags(option));
+}
+
+function nodeOptions(
+  command: InternalCommand,
+  version: string | undefined
+): InternalOption[] {
+  return getBuiltInOptions(version).concat(
+    command.options.filter((option) => option.hidden !== true)
+  );
+}
+
+function positionalValues(command: InternalCommand): string[] {
+  return command.positionalArgs.flatMap((arg) => arg.enumValues ?? []);
+}
+
+function singleQuote(text: string): string {
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+function fishQuote(text: string): string {
+  return `'${text.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+}
+
+// Case patterns to walk from the parent path to the command path. ex. "remote:add") path="remote add"
+function pathTransitions(nodes: CompletionNode[]): Array<[string, string]> {
+  return nodes.map(({ path, command }) => {
+    const parentPath = path.split(" ").slice(0, -1).join(" ");
+    return [`${parentPath}:${command.name}`, path];
+  });
+}
+
+function generateBash(
+  name: string,
+  nodes: CompletionNode[],
+  version: string | undefined
+): string {
+  const functionName = `_${toIdentifier(name)}_completion`;
+  const transitions = pathTransitions(nodes.slice(1))
+    .map(
+      ([from, to]) =>
+        `      ${singleQuote(from)}) cmd_path=${singleQuote(to)} ;;`
+    )
+    .join("\n");
+  const cases = nodes
+    .map(({ path, command }) => {
+      const options = nodeOptions(command, version);
+      const flags = options.flatMap(optionFlags);
+      const valueCases = options.filter(optionRequiresValue).map((option) => {
+        const reply =
+          option.enumValues !== undefined
+            ? `COMPREPLY=($(compgen -W ${singleQuote(
+                option.enumValues.join(" ")
+              )} -- "\${cur}"))`
+            : `COMPREPLY=($(compgen -f -- "\${cur}"))`;
+        return `        ${optionFlags(option).join("|")}) ${reply}; return ;;`;
+      });
+      const words = visibleCommands(command)
+        .map((child) => child.name)
+        .concat(positionalValues(command));
+      return [
+        `    ${singleQuote(path)})`,
+        `      flags=${singleQuote(flags.join(" "))}`,
+        `      words=${singleQuote(words.join(" "))}`,
+        ...(valueCases.length !== 0
+          ? ['      case "${prev}" in', ...valueCases, "      esac"]
+          : []),
+        "      ;;",
+      ].join("\n");
+    })
+    .join("\n");
+
+  return `# bash completion for ${name}
+${functionName}() {
+  local cur prev cmd_path i flags words
+  cur="\${COMP_WORDS[COMP_CWORD]}"
+  prev="\${COMP_WORDS[COMP_CWORD-1]}"
+  cmd_path=""
+  for ((i = 1; i < COMP_CWORD; i++)); do
+    case "\${cmd_path}:\${COMP_WORDS[i]}" in
+${transitions}
+    esac
+  done
+  case "\${cmd_path}" in
+${cases}
+  esac
+  if [[ "\${cur}" == -* ]]; then
+    COMPREPLY=($(compgen -W "\${flags}" -- "\${cur}"))
+  else
+    COMPREPLY=($(compgen -W "\${words}" -- "\${cur}"))
+  fi
+}
+complete -o default -F ${functionName} ${name}
+`;
+}
+
+function generateZsh(
+  name: string,
+  nodes: CompletionNode[],
+  version: string | undefined
+): string {
+  const functionName = `_${toIdentifier(name)}`;
+  const transitions = pathTransitions(nodes.slice(1))
+    .map(
+      ([from, to]) =>
+        `      ${singleQuote(from)}) cmd_path=${singleQuote(to)} ;;`
+    )
+    .join("\n");
+  const cases = nodes
+    .map(({ path, command }) => {
+      const options = nodeOptions(command, version);
+      const flags = options.flatMap(optionFlags);
+      const valueCases = options.filter(optionRequiresValue).map((option) => {
+        const reply =
+          option.enumValues !== undefined
+            ? `compadd -- ${option.enumValues.map(singleQuote).join(" ")}`
+            : "_files";
+        return `        ${optionFlags(option).join("|")}) ${reply}; return ;;`;
+      });
+      const commands = visibleCommands(command).map((child) =>
+        singleQuote(
+          child.description !== undefined
+            ? `${child.name}:${child.description}`
+            : child.name
+        )
+      );
+      return [
+        `    ${singleQuote(path)})`,
+        `      flags=(${flags.map(singleQuote).join(" ")})`,
+        `      commands=(${commands.join(" ")})`,
+        `      values=(${positionalValues(command)
+          .map(singleQuote)
+          .join(" ")})`,
+        ...(valueCases.length !== 0
+          ? ['      case "${prev}" in', ...valueCases, "      esac"]
+          : []),
+        "      ;;",
+      ].join("\n");
+    })
+    .join("\n");
+
+  return `#compdef ${name}
+${functionName}() {
+  local cur prev cmd_path i
+  local -a flags commands values
+  cur="\${words[CURRENT]}"
+  prev="\${words[CURRENT-1]}"
+  cmd_path=""
+  for ((i = 2; i < CURRENT; i++)); do
+    case "\${cmd_path}:\${words[i]}" in
+${transitions}
+    esac
+  done
+  case "\${cmd_path}" in
+${cases}
+  esac
+  if [[ "\${cur}" == -* ]]; then
+    compadd -- "\${flags[@]}"
+  else
+    (( \${#commands} )) && _describe 'command' commands
+    (( \${#values} )) && compadd -- "\${values[@]}"
+  fi
+}
+compdef ${functionName} ${name}
+`;
+}
+
+function generateFish(
+  name: string,
+  nodes: CompletionNode[],
+  version: string | undefined
+): string {
+  const pathFunctionName = `__${toIdentifier(name)}_command_path`;
+  // root path is the script name to avoid empty output of the function
+  const toFishPath = (path: string): string =>
+    path === "" ? name : `${name} ${path}`;
+  const transitions = pathTransitions(nodes.slice(1))
+    .map(([from, to]) => {
+      const [parentPath, commandName] = from.split(":");
+      return [
+        `            case ${fishQuote(
+          `${toFishPath(parentPath)}:${commandName}`
+        )}`,
+        `                set cmd_path ${fishQuote(toFishPath(to))}`,
+      ].join("\n");
+    })
+    .join("\n");
+  const lines = nodes.flatMap(({ path, command }) => {
+    const condition = `-n ${fishQuote(
+      `test (${pathFunctionName}) = ${fishQuote(toFishPath(path))}`
+    )}`;
+    const commandLines = visibleCommands(command).map((child) => {
+      const descriptionStr =
+        child.description !== undefined
+          ? ` -d ${fishQuote(child.description)}`
+          : "";
+      return `complete -c ${name} ${condition} -a ${fishQuote(
+        child.name
+      )}${descriptionStr}`;
+    });
+    const optionLines = nodeOptions(command, version).map((option) => {
+      const aliasStr = aliasFlags(option)
+        .map((flag) =>
+          flag.startsWith("--")
+            ? ` -l ${flag.slice(2)}`
+            : flag.length === 2
+            ? ` -s ${flag.slice(1)}`
+            : ` -o ${flag.slice(1)}`
+        )
+        .join("");
+      const valueStr = !optionRequiresValue(option)
+        ? ""
+        : option.enumValues !== undefined
+        ? ` -r -f -a ${fishQuote(option.enumValues.join(" "))}`
+        : " -r -F";
+      const descriptionStr =
+        option.description !== undefined
+          ? ` -d ${fishQuote(option.description)}`
+          : "";
+      return `complete -c ${name} ${condition} -l ${option.name}${aliasStr}${valueStr}${descriptionStr}`;
+    });
+    const values = positionalValues(command);
+    const valueLines =
+      values.length !== 0
+        ? [`complete -c ${name} ${condition} -a ${fishQuote(values.join(" "))}`]
+        : [];
+    return commandLines.concat(optionLines, valueLines);
+  });
+
+  return `# fish completion for ${name}
+function ${pathFunctionName}
+    set -l tokens (commandline -opc)
+    set -l cmd_path ${fishQuote(name)}
+    for token in $tokens[2..-1]
+        switch "$cmd_path:$token"
+${transitions}
+        end
+    end
+    echo $cmd_path
+end
+${lines.join("\n")}
+`;
+}
+
+export function generateCompletion({
+  shell,
+  name,
+  command,
+  version,
+}: {
+  shell: CompletionShell;
+  name: string;
+  command: InternalCommand; // root. name is not used
+  version?: string;
+}): string {
+  const nodes: CompletionNode[] = [{ path: "", command }].concat(
+    flattenNodes(command)
+  );
+  switch (shell) {
+    case "bash":
+      return generateBash(name, nodes, version);
+    case "zsh":
+      return generateZsh(name, nodes, version);
+    case "fish":
+      return generateFish(name, nodes, version);
+    default:
+      return assertNever(shell);
+  }
+}
@@ -0,0 +1,98 @@
+import fs from "node:fs";
+
+import { isRecord } from "./compat";
+import { ConfigFileError } from "./error";
+import { DEFAULT_MESSAGES } from "./messages";
+import type { ConfigFile, InternalOption, Messages } from "./type";
+
+export function generateConfigFlagOption(
+  flag: string,
+  messages: Messages = DEFAULT_MESSAGES
+): InternalOption {
+  return {
+    name: flag,
+    type: "string",
+    required: false,
+    argumentName: "path",
+    description: messages.configDescription,
+    isArray: false,
+  };
+}
+
+function readConfigFile(
+  path: string,
+  ignoreMissing: boolean
+): string | undefined {
+  try {
+    return fs.readFileSync(path, "utf8");
+  } catch (e) {
+    if (ignoreMissing && isRecord(e) && e.code === "ENOENT") {
+      return undefined;
+    }
+    const detail = e instanceof Error ? e.message : String(e);
+    throw new ConfigFileError(
+      DEFAULT_MESSAGES.configFileRead(path, detail),
+      path,
+      { reason: "READ_FAILED", detail }
+    );
+  }
+}
+
+// Returns option values in the config file. Values are validated by zod after merged with args.
+export function loadConfigFile(
+  path: string,
+  options: InternalOption[],
+  ignoreMissing: boolean = false
+): Record<string, unknown> {
+  const text = readConfigFile(path, ignoreMissing);
+  if (text === undefined) {
+    return {};
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (e) {
+    const detail = e instanceof Error ? e.message : String(e);
+    throw new ConfigFileError(
+      DEFAULT_MESSAGES.configFileInvalidJson(path, detail),
+      path,
+      { reason: "INVALID_JSON", detail }
+    );
+  }
+  if (!isRecord(json) || Array.isArray(json)) {
+    throw new ConfigFileError(
+      DEFAULT_MESSAGES.configFileNotObject(path),
+      path,
+      {
+        reason: "NOT_OBJECT",
+      }
+    );
+  }
+  const optionNames = options.map((option) => option.name);
+  const unknownKeys = Object.keys(json).filter(
+    (key) => !optionNames.includes(key)
+  );
+  if (unknownKeys.length !== 0) {
+    throw new ConfigFileError(
+      DEFAULT_MESSAGES.configFileUnknownKeys(path, unknownKeys),
+      path,
+      { reason: "UNKNOWN_KEY", keys: unknownKeys }
+    );
+  }
+  return json;
+}
+
+export function resolveConfigValues(
+  config: ConfigFile,
+  configFlagValue: string | string[] | undefined,
+  options: InternalOption[]
+): Record<string, unknown> {
+  if (typeof configFlagValue === "string") {
+    return loadConfigFile(configFlagValue, options);
+  }
+  if (config.path !== undefined) {
+    // Default config file is optional
+    return loadConfigFile(config.path, options, true);
+  }
+  return {};
+}
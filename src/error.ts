@@ -1,3 +1,12 @@
+import type {
+  CommandErrorCode,
+  ConfigFileErrorReason,
+  OptionErrorCode,
+  ParseErrorCode,
+  PositionalArgumentErrorCode,
+  ValidationErrorCode,
+} from "./type";
+
 export class BaseError extends Error {
   code: string;
   nestedError: Error | undefined;
@@ -11,11 +20,161 @@ export class BaseError extends Error {
 }
 
 export class ParseError extends BaseError {
+  declare code: ParseErrorCode;
   commandName: string | undefined;
+  suggestions: string[]; // "did you mean" candidates, or the matches of an ambiguous abbreviation. ex. ["--verbose"]
+  errors: ParseError[]; // each problem when multiple problems are reported at once
 
-  constructor(message: string, nestedError?: Error) {
-    super("", message);
+  constructor(
+    message: string,
+    nestedError?: Error,
+    code: ParseErrorCode = "PARSE_ERROR"
+  ) {
+    super(code, message);
     Error.captureStackTrace(this, this.constructor);
     this.nestedError = nestedError;
+    this.suggestions = [];
+    this.errors = [];
+  }
+}
+
+export class OptionError extends ParseError {
+  declare code: OptionErrorCode;
+  optionName: string; // ex. "opt1". Name in args for UNKNOWN_OPTION. ex. "verbos"
+  arg: string | undefined; // offending token in args. ex. "--verbos", "abc"
+  expectedType: string | undefined; // for INVALID_OPTION_VALUE and INVALID_ENV_VALUE. ex. "number", "date"
+  envName: string | undefined; // for INVALID_ENV_VALUE
+  // the other options of CONFLICTING_OPTIONS and MISSING_OPTION_GROUP, and the required options of MISSING_DEPENDENT_OPTION
+  relatedOptionNames: string[];
+
+  constructor(
+    code: OptionErrorCode,
+    message: string,
+    {
+      optionName,
+      arg,
+      expectedType,
+      envName,
+      relatedOptionNames = [],
+    }: {
+      optionName: string;
+      arg?: string;
+      expectedType?: string;
+      envName?: string;
+      relatedOptionNames?: string[];
+    }
+  ) {
+    super(message, undefined, code);
+    Error.captureStackTrace(this, this.constructor);
+    this.optionName = optionName;
+    this.arg = arg;
+    this.expectedType = expectedType;
+    this.envName = envName;
+    this.relatedOptionNames = relatedOptionNames;
+  }
+}
+
+export class PositionalArgumentError extends ParseError {
+  declare code: PositionalArgumentErrorCode;
+  argumentName: string | undefined; // ex. "pos1"
+  arg: string | undefined; // offending token in args
+  expectedType: string | undefined; // for INVALID_POSITIONAL_VALUE
+
+  constructor(
+    code: PositionalArgumentErrorCode,
+    message: string,
+    {
+      argumentName,
+      arg,
+      expectedType,
+    }: { argumentName?: string; arg?: string; expectedType?: string } = {}
+  ) {
+    super(message, undefined, code);
+    Error.captureStackTrace(this, this.constructor);
+    this.argumentName = argumentName;
+    this.arg = arg;
+    this.expectedType = expectedType;
+  }
+}
+
+export class CommandError extends ParseError {
+  declare code: CommandErrorCode;
+  arg: string | undefined; // offending token in args for UNKNOWN_COMMAND and AMBIGUOUS_COMMAND
+
+  constructor(code: CommandErrorCode, message: string, arg?: string) {
+    super(message, undefined, code);
+    Error.captureStackTrace(this, this.constructor);
+    this.arg = arg;
+  }
+}
+
+export class ConfigFileError extends ParseError {
+  declare code: "CONFIG_FILE";
+  path: string;
+  reason: ConfigFileErrorReason;
+  detail: string | undefined; // message of the underlying error for READ_FAILED and INVALID_JSON
+  keys: string[]; // for UNKNOWN_KEY
+
+  constructor(
+    message: string,
+    path: string,
+    {
+      reason,
+      detail,
+      keys = [],
+    }: { reason: ConfigFileErrorReason; detail?: string; keys?: string[] }
+  ) {
+    super(message, undefined, "CONFIG_FILE");
+    Error.captureStackTrace(this, this.constructor);
+    this.path = path;
+    this.reason = reason;
+    this.detail = detail;
+    this.keys = keys;
+  }
+}
+
+export class ValidationError extends ParseError {
+  declare code: ValidationErrorCode;
+  path: PropertyKey[]; // ex. ["opt1"], ["opt1", 0] for an array item. Empty for custom validation
+  reason: string; // message of the zod issue or the custom validation
+
+  constructor(
+    code: ValidationErrorCode,
+    message: string,
+    path: PropertyKey[] = [],
+    nestedError?: Error,
+    reason: string = message
+  ) {
+    super(message, nestedError, code);
+    Error.captureStackTrace(this, this.constructor);
+    this.path = path;
+    this.reason = reason;
+  }
+}
+
+// One problem is returned as is. Multiple problems are listed on their own lines.
+export function combineParseErrors(
+  errors: ParseError[],
+  nestedError?: Error
+): ParseError {
+  if (errors.length === 1) {
+    return errors[0];
+  }
+  const error = new ParseError(
+    errors.map((e) => e.message).join("\n"),
+    nestedError,
+    "MULTIPLE_ERRORS"
+  );
+  error.errors = errors;
+  return error;
+}
+
+export class ExitError extends BaseError {
+  exitCode: number;
+
+  constructor(exitCode: number) {
+    super("", `Exit requested with code ${exitCode}`);
+    Error.captureStackTrace(this, this.constructor);
+    this.exitCode = exitCode;
   }
 }
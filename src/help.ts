@@ -1,16 +1,28 @@
+import { PLAIN_THEME } from "./color";
+import { DEFAULT_MESSAGES } from "./messages";
+import { padEndWidth, stringWidth, wrapText } from "./string_width";
 import type {
+  HelpFormat,
   InternalCommand,
   InternalOption,
   InternalPositionalArgument,
+  Messages,
+  Theme,
 } from "./type";
+import { aliasFlags, flattenCommands, uniq } from "./util";
+import { getPlaceholder } from "./value_type";
 
-function getBuiltInOptions(version?: string): InternalOption[] {
+export function getBuiltInOptions(
+  version?: string,
+  hasHidden: boolean = false,
+  messages: Messages = DEFAULT_MESSAGES
+): InternalOption[] {
   const helpCommand: InternalOption = {
     name: "help",
     type: "boolean",
     required: false,
     alias: "h",
-    description: "Show help",
+    description: messages.helpDescription,
     isArray: false,
   };
 
@@ -19,36 +31,120 @@ function getBuiltInOptions(version?: string): InternalOption[] {
     type: "boolean",
     required: false,
     alias: "V",
-    description: "Show version",
+    description: messages.versionDescription,
     isArray: false,
   };
 
-  return version === undefined ? [helpCommand] : [helpCommand, versionCommand];
+  const helpAllCommand: InternalOption = {
+    name: "help-all",
+    type: "boolean",
+    required: false,
+    description: messages.helpAllDescription,
+    isArray: false,
+  };
+
+  return [helpCommand]
+    .concat(hasHidden ? [helpAllCommand] : [])
+    .concat(version === undefined ? [] : [versionCommand]);
+}
+
+function isVisible(item: { hidden?: boolean }, showHidden: boolean): boolean {
+  return showHidden || item.hidden !== true;
+}
+
+// --help-all is listed only when something is hidden
+function hasHiddenItems(
+  options: InternalOption[],
+  commands: InternalCommand[] = []
+): boolean {
+  return (
+    options.some((option) => option.hidden === true) ||
+    commands.some(
+      (command) =>
+        command.hidden === true ||
+        hasHiddenItems(command.options, command.commands)
+    )
+  );
 }
 
-function addPaddingToTable(rows: string[][]): string[][] {
+const MIN_WRAP_WIDTH = 20;
+
+function splitCell(cell: string): { lines: string[]; separatorWidth: number } {
+  const content = cell.trimEnd();
+  return {
+    lines: content.split("\n"),
+    separatorWidth: cell.length - content.length,
+  };
+}
+
+function cellWidth(cell: string): number {
+  const { lines, separatorWidth } = splitCell(cell);
+  return Math.max(...lines.map(stringWidth)) + separatorWidth;
+}
+
+// Returns lines of each row. The cell of wrapColumn is wrapped to fit in width, and the following lines are indented to the column.
+function formatTable(
+  rows: string[][],
+  wrapColumn: number,
+  width?: number
+): string[][] {
   if (rows.length === 0) {
-    return rows;
+    return [];
   }
   const colLength = rows[0].length;
   const colMax = Array.from({ length: colLength }, (_, col) => {
-    const colCells = rows.map((row) => row[col]);
-    return Math.max(...colCells.map((cell) => cell.length));
+    return Math.max(...rows.map((row) => cellWidth(row[col])));
   });
-  const rowsPadded = rows.map((row) => {
-    return row.map((cell, col) => cell.padEnd(colMax[col]));
+  const totalWidth = colMax.reduce((sum, w) => sum + w, 0);
+  if (width !== undefined && totalWidth > width) {
+    colMax[wrapColumn] = Math.max(
+      colMax[wrapColumn] - (totalWidth - width),
+      MIN_WRAP_WIDTH
+    );
+  }
+  const wrapIndent = " ".repeat(
+    colMax.slice(0, wrapColumn).reduce((sum, w) => sum + w, 0)
+  );
+  return rows.map((row) => {
+    const { lines, separatorWidth } = splitCell(row[wrapColumn]);
+    const wrapped = wrapText(
+      lines.join("\n"),
+      width !== undefined ? colMax[wrapColumn] - separatorWidth : undefined
+    );
+    const firstLine = row
+      .map((cell, col) =>
+        padEndWidth(
+          col === wrapColumn
+            ? `${wrapped[0]}${" ".repeat(separatorWidth)}`
+            : cell,
+          colMax[col]
+        )
+      )
+      .join("");
+    return [firstLine].concat(
+      wrapped.slice(1).map((line) => `${wrapIndent}${line}`.trimEnd())
+    );
   });
-  return rowsPadded;
 }
 
-function tableToText(rows: string[][]): string {
-  return rows.map((cells) => cells.join("")).join("\n");
+function tableToText(rowLines: string[][]): string {
+  return rowLines.flat().join("\n");
+}
+
+function wrapDescription(
+  description: string | undefined,
+  width?: number
+): string {
+  return description !== undefined
+    ? wrapText(description, width).join("\n")
+    : "";
 }
 
 export function generateGlobalUsage(
   scriptName: string,
   positionalArgs: InternalPositionalArgument[],
-  commandName?: string
+  commandName?: string,
+  { theme = PLAIN_THEME, messages = DEFAULT_MESSAGES }: HelpFormat = {}
 ): string {
   const positionalStr = positionalArgs
     .map((option) => {
@@ -60,101 +156,261 @@ export function generateGlobalUsage(
     })
     .join(" ");
   const commandStr = commandName !== undefined ? `${commandName} ` : "";
-  return `Usage: ${scriptName} ${commandStr}[options] ${positionalStr}`;
+  return `${theme.heading(
+    messages.usage
+  )} ${scriptName} ${commandStr}[options] ${positionalStr}`;
+}
+
+export function generateGlobalCommandUsage(
+  scriptName: string,
+  commandName?: string,
+  { theme = PLAIN_THEME, messages = DEFAULT_MESSAGES }: HelpFormat = {}
+): string {
+  const commandStr = commandName !== undefined ? `${commandName} ` : "";
+  return `${theme.heading(
+    messages.usage
+  )} ${scriptName} ${commandStr}[options] <command>`;
 }
 
-export function generateGlobalCommandUsage(scriptName: string): string {
-  return `Usage: ${scriptName} [options] <command>`;
+// Strings are quoted, and numbers, bigints and booleans are not. ex. "a", 5, ["a","b"]
+function formatHelpValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(formatHelpValue).join(",")}]`;
+  }
+  return typeof value === "string" ? JSON.stringify(value) : String(value);
 }
 
 function generateDefaultString(
-  option: InternalOption | InternalPositionalArgument
+  option: InternalOption | InternalPositionalArgument,
+  messages: Messages
 ): string {
   return option.defaultValue !== undefined
-    ? `(default: ${JSON.stringify(option.defaultValue)})`
+    ? messages.defaultValue(formatHelpValue(option.defaultValue))
     : "";
 }
 
-function generateNameAndArgString(option: InternalOption): string {
-  const arrayStr = option.isArray ? " ..." : "";
+function generateNameAndArgString(
+  option: InternalOption,
+  theme: Theme
+): string {
+  // ex. <string ...>, <key=value ...>, <string,...> with the separator ","
+  const arrayStr =
+    option.separator !== undefined
+      ? `${option.separator}...`
+      : option.isArray
+      ? " ..."
+      : "";
+  // long aliases follow the name. ex. --output, --out
+  const nameStr = [`--${option.name}`]
+    .concat(aliasFlags(option).filter((flag) => flag.startsWith("--")))
+    .map((flag) => theme.flag(flag))
+    .join(", ");
+
+  // ex. --point <number> <number>
+  if (option.tupleTypes !== undefined && option.argumentName === undefined) {
+    return `${nameStr} ${theme.placeholder(
+      `${option.tupleTypes.map((type) => `<${type}>`).join(" ")}${arrayStr}`
+    )}`;
+  }
+
+  if (option.count === true) {
+    return nameStr;
+  }
 
   switch (option.type) {
     case "string":
-      return `--${option.name} <${option.argumentName ?? "string"}${arrayStr}>`;
     case "number":
-      return `--${option.name} <${option.argumentName ?? "number"}${arrayStr}>`;
+      return `${nameStr} ${theme.placeholder(
+        `<${
+          option.argumentName ??
+          (option.valueType !== undefined
+            ? getPlaceholder(option.valueType)
+            : option.isRecord === true
+            ? "key=value"
+            : option.type)
+        }${arrayStr}>`
+      )}`;
     case "boolean":
-      return `--${option.name}`;
+      return nameStr;
   }
 }
 
 function generateChoiceString(
-  option: InternalOption | InternalPositionalArgument
+  option: InternalOption | InternalPositionalArgument,
+  messages: Messages
 ): string {
   if (option.enumValues === undefined) {
     return "";
   }
-  return `(choices: ${option.enumValues.map((s) => `"${s}"`).join(", ")})`;
+  // enumValues are strings. Values of number options are shown as numbers
+  return messages.choices(
+    option.enumValues.map((value) =>
+      option.type === "number" ? value : formatHelpValue(value)
+    )
+  );
+}
+
+function generateEnvString(
+  option: InternalOption | InternalPositionalArgument,
+  messages: Messages
+): string {
+  return "envName" in option && option.envName !== undefined
+    ? messages.env(option.envName)
+    : "";
+}
+
+// Relations of the option. ex. "[conflicts: --yaml] [exactly one of: --json, --yaml]"
+function generateRelationString(
+  option: InternalOption,
+  messages: Messages
+): string {
+  const groupStrs = (option.optionGroups ?? []).map((rule) =>
+    messages[rule.kind](rule.names)
+  );
+  return collapseWhiteSpace(
+    [
+      option.conflicts !== undefined
+        ? messages.conflicts(option.conflicts)
+        : "",
+      option.requires !== undefined ? messages.requires(option.requires) : "",
+      option.implies !== undefined
+        ? messages.implies(Object.keys(option.implies))
+        : "",
+    ].concat(groupStrs)
+  );
+}
+
+function generateDeprecatedString(
+  item: { deprecated?: string },
+  messages: Messages
+): string {
+  return item.deprecated !== undefined ? messages.deprecated : "";
 }
 
 function generateDescriptionString(
-  option: InternalOption | InternalPositionalArgument
+  option: InternalOption | InternalPositionalArgument,
+  messages: Messages
 ): string {
   const descriptionStr = option.description ?? "";
-  const defaultStr = generateDefaultString(option);
-  const choiceStr = generateChoiceString(option);
+  const defaultStr = generateDefaultString(option, messages);
+  const choiceStr = generateChoiceString(option, messages);
+  const envStr = generateEnvString(option, messages);
+  const relationStr =
+    "conflicts" in option ? generateRelationString(option, messages) : "";
+  const deprecatedStr =
+    "deprecated" in option ? generateDeprecatedString(option, messages) : "";
 
-  return `${collapseWhiteSpace([descriptionStr, choiceStr, defaultStr])}  `;
+  return `${collapseWhiteSpace([
+    descriptionStr,
+    choiceStr,
+    defaultStr,
+    envStr,
+    relationStr,
+    deprecatedStr,
+  ])}  `;
 }
 
 function collapseWhiteSpace(words: string[], splitter = " "): string {
   return words.filter((s) => s !== "").join(splitter);
 }
 
+// Groups in groupOrder come first, and the rest are in order of appearance
+function orderGroups(
+  options: InternalOption[],
+  groupOrder: string[]
+): string[] {
+  const groups = options.flatMap((option) =>
+    option.group !== undefined ? [option.group] : []
+  );
+  return uniq(
+    groupOrder.filter((group) => groups.includes(group)).concat(groups)
+  );
+}
+
+// Ungrouped options are shown in "Options:" section, and columns are aligned across sections
 export function generateOptionsText(
   options: InternalOption[],
-  indent: number = 2
+  indent: number = 2,
+  showHidden: boolean = false,
+  groupOrder: string[] = [],
+  { width, theme = PLAIN_THEME, messages = DEFAULT_MESSAGES }: HelpFormat = {}
 ): string {
   const indentStr = " ".repeat(indent);
-  const table = options.map((option) => {
-    const aliasStr = option.alias !== undefined ? `-${option.alias}, ` : "";
-    const nameAndArgStr = `${generateNameAndArgString(option)}  `;
-    const descriptionStr = generateDescriptionString(option);
-    const requiredStr = option.required ? "[required]" : "";
+  const visibleOptions = options.filter((option) =>
+    isVisible(option, showHidden)
+  );
+  const table = visibleOptions.map((option) => {
+    const aliasStr = aliasFlags(option)
+      .filter((flag) => !flag.startsWith("--"))
+      .map((flag) => `${theme.flag(flag)}, `)
+      .join("");
+    const nameAndArgStr = `${generateNameAndArgString(option, theme)}  `;
+    const descriptionStr = generateDescriptionString(option, messages);
+    const requiredStr = option.required
+      ? theme.required(messages.required)
+      : "";
     return [indentStr, aliasStr, nameAndArgStr, descriptionStr, requiredStr];
   });
-  return `Options:\n${tableToText(addPaddingToTable(table))}`;
+  const rows = formatTable(table, 3, width);
+  const groups = orderGroups(visibleOptions, groupOrder);
+  const sectionText = (title: string, group: string | undefined): string =>
+    `${theme.heading(title)}\n${tableToText(
+      rows.filter((_, i) => visibleOptions[i].group === group)
+    )}`;
+  const hasUngrouped = visibleOptions.some((o) => o.group === undefined);
+  const defaultText =
+    hasUngrouped || groups.length === 0
+      ? sectionText(messages.options, undefined)
+      : "";
+  return collapseWhiteSpace(
+    [defaultText].concat(
+      groups.map((group) => sectionText(`${group}:`, group))
+    ),
+    "\n\n"
+  );
 }
 
 export function generatePositionalArgumentsText(
   positionalArgs: InternalPositionalArgument[],
-  indent: number = 2
+  indent: number = 2,
+  { width, theme = PLAIN_THEME, messages = DEFAULT_MESSAGES }: HelpFormat = {}
 ): string {
   if (positionalArgs.length === 0) {
     return "";
   }
   const indentStr = " ".repeat(indent);
   const table = positionalArgs.map((arg) => {
-    const nameAndArgStr = `${arg.name}  `;
-    const descriptionStr = generateDescriptionString(arg);
-    const requiredStr = arg.required ? "[required]" : "";
+    const nameAndArgStr = `${theme.placeholder(arg.name)}  `;
+    const descriptionStr = generateDescriptionString(arg, messages);
+    const requiredStr = arg.required ? theme.required(messages.required) : "";
     return [indentStr, nameAndArgStr, descriptionStr, requiredStr];
   });
-  return `Arguments:\n${tableToText(addPaddingToTable(table))}`;
+  return `${theme.heading(messages.arguments)}\n${tableToText(
+    formatTable(table, 2, width)
+  )}`;
 }
 
 export function generateCommandsText(
   commands: InternalCommand[],
-  indent: number = 2
+  indent: number = 2,
+  showHidden: boolean = false,
+  { width, theme = PLAIN_THEME, messages = DEFAULT_MESSAGES }: HelpFormat = {}
 ): string {
   const indentStr = " ".repeat(indent);
-  const table = commands.map((command) => {
-    const nameStr = `${command.name}  `;
-    const descriptionStr =
-      command.description !== undefined ? `${command.description}` : "";
+  const visibleCommands = commands.filter((command) =>
+    isVisible(command, showHidden)
+  );
+  const table = visibleCommands.map((command) => {
+    const nameStr = `${theme.flag(command.name)}  `;
+    const descriptionStr = collapseWhiteSpace([
+      command.description ?? "",
+      generateDeprecatedString(command, messages),
+    ]);
     return [indentStr, nameStr, descriptionStr];
   });
-  return `Commands:\n${tableToText(addPaddingToTable(table))}`;
+  return `${theme.heading(messages.commands)}\n${tableToText(
+    formatTable(table, 2, width)
+  )}`;
 }
 
 export function generateGlobalHelp({
@@ -163,18 +419,43 @@ export function generateGlobalHelp({
   name,
   description,
   version,
+  showHidden = false,
+  groupOrder,
+  format = {},
 }: {
   options: InternalOption[];
   positionalArgs: InternalPositionalArgument[];
   name?: string;
   description?: string;
   version?: string;
+  showHidden?: boolean;
+  groupOrder?: string[]; // order of option groups in help
+  format?: HelpFormat; // width and theme
 }): string {
-  const globalUsage = generateGlobalUsage(name ?? "program", positionalArgs);
-  const descriptionStr = description !== undefined ? `${description}` : "";
-  const optionsWithBuildIn = getBuiltInOptions(version).concat(options);
-  const optionsText = generateOptionsText(optionsWithBuildIn);
-  const positionalArgsText = generatePositionalArgumentsText(positionalArgs);
+  const globalUsage = generateGlobalUsage(
+    name ?? "program",
+    positionalArgs,
+    undefined,
+    format
+  );
+  const descriptionStr = wrapDescription(description, format.width);
+  const optionsWithBuildIn = getBuiltInOptions(
+    version,
+    hasHiddenItems(options),
+    format.messages
+  ).concat(options);
+  const optionsText = generateOptionsText(
+    optionsWithBuildIn,
+    undefined,
+    showHidden,
+    groupOrder,
+    format
+  );
+  const positionalArgsText = generatePositionalArgumentsText(
+    positionalArgs,
+    undefined,
+    format
+  );
   return `${collapseWhiteSpace(
     [globalUsage, descriptionStr, positionalArgsText, optionsText],
     "\n\n"
@@ -183,25 +464,58 @@ export function generateGlobalHelp({
 
 export function generateCommandHelp({
   command,
+  commandName,
   name,
   version,
+  showHidden = false,
+  groupOrder,
+  format = {},
 }: {
   command: InternalCommand;
+  commandName?: string; // full command path. ex. "remote add"
   name?: string;
   version?: string;
+  showHidden?: boolean;
+  groupOrder?: string[]; // order of option groups in help
+  format?: HelpFormat;
 }): string {
+  if (command.commands !== undefined && command.commands.length !== 0) {
+    return generateGlobalCommandHelp({
+      commands: command.commands,
+      commandName: commandName ?? command.name,
+      name,
+      description: command.description,
+      version,
+      showHidden,
+      format,
+    });
+  }
   const positionalArg = command.positionalArgs;
   const options = command.options;
   const globalUsage = generateGlobalUsage(
     name ?? "script",
     positionalArg,
-    command.name
+    commandName ?? command.name,
+    format
+  );
+  const optionsWithBuildIn = getBuiltInOptions(
+    version,
+    hasHiddenItems(options),
+    format.messages
+  ).concat(options);
+  const descriptionStr = wrapDescription(command.description, format.width);
+  const optionsText = generateOptionsText(
+    optionsWithBuildIn,
+    undefined,
+    showHidden,
+    groupOrder,
+    format
+  );
+  const positionalArgsText = generatePositionalArgumentsText(
+    positionalArg,
+    undefined,
+    format
   );
-  const optionsWithBuildIn = getBuiltInOptions(version).concat(options);
-  const descriptionStr =
-    command.description !== undefined ? `${command.description}` : "";
-  const optionsText = generateOptionsText(optionsWithBuildIn);
-  const positionalArgsText = generatePositionalArgumentsText(positionalArg);
   return `${collapseWhiteSpace(
     [globalUsage, descriptionStr, positionalArgsText, optionsText],
     "\n\n"
@@ -210,21 +524,104 @@ export function generateCommandHelp({
 
 export function generateGlobalCommandHelp({
   commands,
+  commandName,
   name,
   description,
   version,
+  showHidden = false,
+  format = {},
 }: {
   commands: InternalCommand[];
+  commandName?: string; // path of the parent command when commands are nested
   name?: string;
   description?: string;
   version?: string;
+  showHidden?: boolean;
+  format?: HelpFormat;
 }): string {
-  const globalUsage = generateGlobalCommandUsage(name ?? "script");
-  const descriptionStr = description !== undefined ? `${description}` : "";
-  const commandsText = generateCommandsText(commands);
-  const optionsText = generateOptionsText(getBuiltInOptions(version));
+  const globalUsage = generateGlobalCommandUsage(
+    name ?? "script",
+    commandName,
+    format
+  );
+  const descriptionStr = wrapDescription(description, format.width);
+  const commandsText = generateCommandsText(
+    commands,
+    undefined,
+    showHidden,
+    format
+  );
+  const optionsText = generateOptionsText(
+    getBuiltInOptions(version, hasHiddenItems([], commands), format.messages),
+    undefined,
+    undefined,
+    undefined,
+    format
+  );
   return `${collapseWhiteSpace(
     [globalUsage, descriptionStr, commandsText, optionsText],
     "\n\n"
   )}\n`;
 }
+
+// Help of --help-all. Shows hidden items and appends the help of every command below.
+export function generateCommandHelpAll({
+  commands,
+  command,
+  commandName,
+  name,
+  description,
+  version,
+  groupOrder,
+  format = {},
+}: {
+  commands: InternalCommand[]; // used when command is undefined
+  command?: InternalCommand;
+  commandName?: string; // full command path of command
+  name?: string;
+  description?: string;
+  version?: string;
+  groupOrder?: string[];
+  format?: HelpFormat;
+}): string {
+  const help =
+    command === undefined
+      ? generateGlobalCommandHelp({
+          commands,
+          name,
+          description,
+          version,
+          showHidden: true,
+          format,
+        })
+      : generateCommandHelp({
+          command,
+          commandName,
+          name,
+          version,
+          showHidden: true,
+          groupOrder,
+          format,
+        });
+  const descendants = flattenCommands(
+    command === undefined ? commands : command.commands ?? [],
+    (child) => child.name,
+    (child) => child.commands ?? [],
+    command === undefined ? [] : (commandName ?? command.name).split(" ")
+  );
+  return [help]
+    .concat(
+      descendants.map((entry) =>
+        generateCommandHelp({
+          command: entry.command,
+          commandName: entry.commandName,
+          name,
+          version,
+          showHidden: true,
+          groupOrder,
+          format,
+        })
+      )
+    )
+    .join("\n");
+}
@@ -1,4 +1,34 @@
 export { Command, command } from "./command";
 export { CommandParser } from "./command_parser";
-export type { ParseError } from "./error";
+export {
+  CommandError,
+  ConfigFileError,
+  ExitError,
+  OptionError,
+  ParseError,
+  PositionalArgumentError,
+  ValidationError,
+} from "./error";
 export { Parser, parser } from "./parser";
+export type {
+  CommandErrorCode,
+  ConfigFileErrorReason,
+  Messages,
+  MessagesConfig,
+  OptionErrorCode,
+  OutputConfig,
+  ParseErrorCode,
+  ParseResult,
+  ParseResultError,
+  ParseResultHelp,
+  ParseResultMatch,
+  ParseResultVersion,
+  PositionalArgumentErrorCode,
+  Theme,
+  ThemeConfig,
+  ValidationErrorCode,
+  ValueType,
+  ZodErrorMap,
+  ZodIssueLike,
+} from "./type";
+export { registerValueType, resetValueTypes } from "./value_type";
@@ -1,15 +1,25 @@
-import { ParseError } from "./error";
+import {
+  combineParseErrors,
+  CommandError,
+  OptionError,
+  ParseError,
+  PositionalArgumentError,
+} from "./error";
 import { debugLog } from "./logger";
+import { DEFAULT_MESSAGES } from "./messages";
+import { formatSuggestions, suggestCommands, suggestOptions } from "./suggest";
 import type {
   InternalCommand,
   InternalOption,
   InternalPositionalArgument,
 } from "./type";
+import { aliasFlags, flattenCommands, splitBySeparator } from "./util";
 
 export interface Candidate {
   name: string;
   value: string | string[] | undefined;
   isNegative: boolean;
+  renamedFrom?: string; // set when the old name of the option is used
 }
 
 export interface PositionalCandidate {
@@ -22,17 +32,94 @@ export function isNumericValue(str: string): boolean {
 }
 
 function optionRequiresValue(option: InternalOption): boolean {
-  return option.type !== "boolean";
+  return option.type !== "boolean" && option.count !== true;
 }
 
-export function findOptionByPrefixedName(
+// Tuples take as many values as their elements, arrays take all the values, and the others take one.
+// Records take one pair, and arrays with a separator take one value and split it. ex. --define A=1 build
+function takeOptionValues(
+  option: InternalOption,
+  optionArgCandidates: string[]
+): [string | string[], number] {
+  if (option.tupleTypes !== undefined) {
+    const values = optionArgCandidates.slice(0, option.tupleTypes.length);
+    return [values, values.length];
+  }
+  if (option.separator !== undefined) {
+    return [splitBySeparator(optionArgCandidates[0], option.separator), 1];
+  }
+  if (option.isRecord === true) {
+    return [[optionArgCandidates[0]], 1];
+  }
+  return option.isArray
+    ? [optionArgCandidates, optionArgCandidates.length]
+    : [optionArgCandidates[0], 1];
+}
+
+// ex. "--verb" => ["--verbose", "--verbatim"]. Renamed names are not abbreviated.
+function abbreviatedFlags(option: InternalOption, prefix: string): string[] {
+  return [`--${option.name}`]
+    .concat(aliasFlags(option).filter((flag) => flag.startsWith("--")))
+    .filter((flag) => flag.startsWith(prefix));
+}
+
+function ambiguousOptionError(
+  prefixedName: string,
+  flags: string[]
+): OptionError {
+  const name = removeOptionPrefix(prefixedName);
+  const error = new OptionError(
+    "AMBIGUOUS_OPTION",
+    `${DEFAULT_MESSAGES.ambiguousOption(name)}${formatSuggestions(flags)}`,
+    { optionName: name, arg: prefixedName }
+  );
+  error.suggestions = flags;
+  return error;
+}
+
+// Unique prefixes of long names resolve to the option. Positive names are tried before --no- negations.
+function findAbbreviatedOption(
+  options: InternalOption[],
+  prefixedName: string
+): [InternalOption, boolean] | undefined {
+  const negativeMatch = prefixedName.match(/^--no-(?<name>.+)$/);
+  const searches: Array<[string, boolean]> = [[prefixedName, false]];
+  if (negativeMatch != null) {
+    const groups = negativeMatch.groups as Record<string, string>;
+    searches.push([`--${groups.name}`, true]);
+  }
+  for (const [prefix, isNegative] of searches) {
+    const matches = options.filter(
+      (option) => abbreviatedFlags(option, prefix).length !== 0
+    );
+    if (matches.length === 1) {
+      return [matches[0], isNegative];
+    }
+    if (matches.length > 1) {
+      throw ambiguousOptionError(
+        prefixedName,
+        matches.map((option) =>
+          isNegative
+            ? `--no-${option.name}`
+            : abbreviatedFlags(option, prefix)[0]
+        )
+      );
+    }
+  }
+  return undefined;
+}
+
+function findOptionByExactName(
   options: InternalOption[],
   prefixedName: string
 ): [InternalOption, boolean] | undefined {
   const option = options.find(
     (opt) =>
       `--${opt.name}` === prefixedName ||
-      (opt.alias !== undefined ? `-${opt.alias}` === prefixedName : false)
+      aliasFlags(opt).includes(prefixedName) ||
+      (opt.renamedFrom !== undefined
+        ? `--${opt.renamedFrom}` === prefixedName
+        : false)
   );
   if (option != null) {
     return [option, false];
@@ -43,16 +130,41 @@ export function findOptionByPrefixedName(
   }
   const groups = negativeMatch.groups as Record<string, string>;
   const negativeName = groups.name;
-  const negativeOption = options.find((opt) => opt.name === negativeName);
+  const negativeOption = options.find(
+    (opt) =>
+      opt.name === negativeName ||
+      opt.renamedFrom === negativeName ||
+      aliasFlags(opt).includes(`--${negativeName}`)
+  );
   if (negativeOption != null) {
     return [negativeOption, true];
   }
   return undefined;
 }
 
+export function findOptionByPrefixedName(
+  options: InternalOption[],
+  prefixedName: string,
+  allowAbbreviations = false
+): [InternalOption, boolean] | undefined {
+  const found = findOptionByExactName(options, prefixedName);
+  if (found !== undefined || !allowAbbreviations) {
+    return found;
+  }
+  return prefixedName.startsWith("--")
+    ? findAbbreviatedOption(options, prefixedName)
+    : undefined;
+}
+
+type OptionArgumentsErrorCode =
+  | "MISSING_VALUE"
+  | "UNEXPECTED_VALUE"
+  | "UNEXPECTED_COUNT_VALUE"
+  | "INVALID_NEGATION";
+
 type ValidateOptionArgumentsResult =
   | { ok: true; value: string | string[] | undefined; shift: number }
-  | { ok: false; message: string };
+  | { ok: false; code: OptionArgumentsErrorCode };
 
 function validateOptionArguments(
   option: InternalOption,
@@ -60,30 +172,29 @@ function validateOptionArguments(
   optionArgCandidates: string[],
   isForcedValue: boolean
 ): ValidateOptionArgumentsResult {
-  if (optionRequiresValue(option) && optionArgCandidates.length === 0) {
-    // ex. --foo and foo is string
-    return { ok: false, message: `Option '${option.name}' needs value` };
+  if (
+    optionRequiresValue(option) &&
+    optionArgCandidates.length < (option.tupleTypes?.length ?? 1)
+  ) {
+    // ex. --foo and foo is string, --point 3 and point is [number, number]
+    return { ok: false, code: "MISSING_VALUE" };
   }
   if (isForcedValue && !optionRequiresValue(option)) {
-    // ex. --foo=bar and foo is boolean
+    // ex. --foo=bar and foo is boolean, --verbose=2 and verbose is count
     return {
       ok: false,
-      message: `Boolean option '${option.name}' does not need value`,
+      code:
+        option.count === true ? "UNEXPECTED_COUNT_VALUE" : "UNEXPECTED_VALUE",
     };
   }
   if (isNegative && option.type !== "boolean") {
     // ex. --no-foo=bar and foo is not boolean
-    return {
-      ok: false,
-      message: `Non boolean option '${option.name}' does not accept --no- prefix`,
-    };
+    return { ok: false, code: "INVALID_NEGATION" };
   }
 
   const [value, shift] = !optionRequiresValue(option)
     ? [undefined, 0]
-    : option.isArray
-    ? [optionArgCandidates, optionArgCandidates.length]
-    : [optionArgCandidates[0], 1];
+    : takeOptionValues(option, optionArgCandidates);
 
   return {
     ok: true,
@@ -96,48 +207,119 @@ function removeOptionPrefix(prefixedName: string): string {
   return prefixedName.replace(/^-+/, "");
 }
 
+function invalidOptionError(
+  options: InternalOption[],
+  name: string,
+  arg: string
+): OptionError {
+  const suggestions = suggestOptions(options, name);
+  const error = new OptionError(
+    "UNKNOWN_OPTION",
+    `${DEFAULT_MESSAGES.unknownOption(name)}${formatSuggestions(suggestions)}`,
+    { optionName: name, arg }
+  );
+  error.suggestions = suggestions;
+  return error;
+}
+
+const OPTION_ARGUMENTS_MESSAGES: Record<
+  OptionArgumentsErrorCode,
+  (name: string) => string
+> = {
+  MISSING_VALUE: DEFAULT_MESSAGES.missingValue,
+  UNEXPECTED_VALUE: DEFAULT_MESSAGES.unexpectedValue,
+  UNEXPECTED_COUNT_VALUE: DEFAULT_MESSAGES.unexpectedCountValue,
+  INVALID_NEGATION: DEFAULT_MESSAGES.invalidNegation,
+};
+
+function optionArgumentsError(
+  option: InternalOption,
+  { code }: { code: OptionArgumentsErrorCode },
+  arg: string
+): OptionError {
+  return new OptionError(code, OPTION_ARGUMENTS_MESSAGES[code](option.name), {
+    optionName: option.name,
+    arg,
+  });
+}
+
+// ex. "-a=10", "--="
+function malformedOptionError(arg: string): OptionError {
+  return new OptionError(
+    "UNKNOWN_OPTION",
+    DEFAULT_MESSAGES.unknownOption(arg),
+    {
+      optionName: arg,
+      arg,
+    }
+  );
+}
+
+function usedRenamedFrom(
+  option: InternalOption,
+  prefixedName: string
+): string | undefined {
+  if (option.renamedFrom === undefined) {
+    return undefined;
+  }
+  return [`--${option.renamedFrom}`, `--no-${option.renamedFrom}`].includes(
+    prefixedName
+  )
+    ? option.renamedFrom
+    : undefined;
+}
+
 function parseLongNameOptionArgument(
   options: InternalOption[],
   arg: string,
-  optionArgCandidates: string[]
+  optionArgCandidates: string[],
+  allowAbbreviations: boolean
 ): { candidate: Candidate; shift: number } {
   const match = arg.match(/^(?<prefixedName>[^=]+)(=(?<forcedValue>.*))?$/); // forcedValue may be empty string
 
   if (match == null) {
-    throw new Error(`Invalid option: ${arg}`);
+    throw malformedOptionError(arg);
   }
   const { prefixedName, forcedValue } = match.groups as Record<string, string>;
   if (forcedValue !== undefined) {
-    const result = findOptionByPrefixedName(options, prefixedName);
+    const result = findOptionByPrefixedName(
+      options,
+      prefixedName,
+      allowAbbreviations
+    );
     if (result === undefined) {
-      throw new ParseError(
-        `Invalid option: ${removeOptionPrefix(prefixedName)}`
-      );
+      throw invalidOptionError(options, removeOptionPrefix(prefixedName), arg);
     }
     const [option, isNegative] = result;
+    // ex. --point=3 4 => [3, 4]. The rest of a tuple follows
     const validateResult = validateOptionArguments(
       option,
       isNegative,
-      [forcedValue],
+      option.tupleTypes !== undefined
+        ? [forcedValue, ...optionArgCandidates]
+        : [forcedValue],
       true
     );
     if (!validateResult.ok) {
-      throw new ParseError(`${validateResult.message}: ${option.name}`);
+      throw optionArgumentsError(option, validateResult, arg);
     }
     return {
       candidate: {
         name: option.name,
         value: validateResult.value,
         isNegative,
+        renamedFrom: usedRenamedFrom(option, prefixedName),
       },
-      shift: 1,
+      shift: validateResult.shift,
     };
   } else {
-    const result = findOptionByPrefixedName(options, prefixedName);
+    const result = findOptionByPrefixedName(
+      options,
+      prefixedName,
+      allowAbbreviations
+    );
     if (result === undefined) {
-      throw new ParseError(
-        `Invalid option: ${removeOptionPrefix(prefixedName)}`
-      );
+      throw invalidOptionError(options, removeOptionPrefix(prefixedName), arg);
     }
     const [option, isNegative] = result;
     const validateResult = validateOptionArguments(
@@ -147,13 +329,14 @@ function parseLongNameOptionArgument(
       false
     );
     if (!validateResult.ok) {
-      throw new ParseError(`${validateResult.message}: ${option.name}`);
+      throw optionArgumentsError(option, validateResult, arg);
     }
     return {
       candidate: {
         name: option.name,
         value: validateResult.value,
         isNegative,
+        renamedFrom: usedRenamedFrom(option, prefixedName),
       },
       shift: validateResult.shift + 1,
     };
@@ -183,38 +366,40 @@ function parseShortNameMultipleOptionArgument(
     const c = text[i];
     const result = findOptionByPrefixedName(options, `-${c}`);
     if (result === undefined) {
-      throw new ParseError(`Invalid option: ${c}`);
+      throw invalidOptionError(options, c, arg);
     }
     const [option] = result;
     if (optionRequiresValue(option)) {
       const isLast = text[i + 1] === undefined;
       if (isLast && optionArgCandidates.length !== 0) {
-        if (option.isArray) {
-          candidates.push({
-            name: option.name,
-            value: optionArgCandidates,
-            isNegative: false,
-          });
-          shift = optionArgCandidates.length + 1;
-        } else {
-          candidates.push({
-            name: option.name,
-            value: optionArgCandidates[0],
-            isNegative: false,
-          });
-          shift = 2;
-        }
+        const [value, valueShift] = takeOptionValues(
+          option,
+          optionArgCandidates
+        );
+        candidates.push({ name: option.name, value, isNegative: false });
+        shift = valueShift + 1;
         break;
       }
       const isFirst = i === 0;
       if (isFirst) {
-        const value = text.slice(1);
+        // ex. -p3 4 => [3, 4]. The rest of a tuple follows
+        const valueCandidates =
+          option.tupleTypes !== undefined
+            ? [text.slice(1), ...optionArgCandidates]
+            : [text.slice(1)];
+        const [value, valueShift] = takeOptionValues(option, valueCandidates);
+        if (
+          option.tupleTypes !== undefined &&
+          valueShift < option.tupleTypes.length
+        ) {
+          throw optionArgumentsError(option, { code: "MISSING_VALUE" }, arg);
+        }
         candidates.push({
           name: option.name,
           value,
           isNegative: false,
         });
-        shift = 1;
+        shift = valueShift;
         break;
       }
     } else {
@@ -229,16 +414,54 @@ function parseShortNameMultipleOptionArgument(
   return { candidates, shift };
 }
 
+// ex. -DFOO=1 => --define FOO=1
+function findAttachedRecordOption(
+  options: InternalOption[],
+  arg: string
+): InternalOption | undefined {
+  if (findOptionByPrefixedName(options, arg) !== undefined) {
+    return undefined;
+  }
+  return options.find(
+    (opt) =>
+      opt.isRecord === true &&
+      shortAliasFlags(opt).some(
+        (flag) => arg.length > flag.length && arg.startsWith(flag)
+      )
+  );
+}
+
+function shortAliasFlags(option: InternalOption): string[] {
+  return aliasFlags(option).filter((flag) => !flag.startsWith("--"));
+}
+
 function parseShortNameOptionArgument(
   options: InternalOption[],
   arg: string,
   optionArgCandidates: string[]
 ): { candidates: Candidate[]; shift: number } {
+  const recordOption = findAttachedRecordOption(options, arg);
+  if (recordOption !== undefined) {
+    const flag = shortAliasFlags(recordOption).find((f) =>
+      arg.startsWith(f)
+    ) as string;
+    return {
+      candidates: [
+        {
+          name: recordOption.name,
+          value: takeOptionValues(recordOption, [arg.slice(flag.length)])[0],
+          isNegative: false,
+        },
+      ],
+      shift: 1,
+    };
+  }
+
   const match = arg.match(/^(?<prefixedName>[^=]+)$/);
 
   if (match == null) {
     // -a=10 is ng
-    throw new ParseError(`Invalid option: ${arg}`);
+    throw malformedOptionError(arg);
   }
   const { prefixedName } = match.groups as Record<string, string>;
 
@@ -262,7 +485,7 @@ function parseShortNameOptionArgument(
     false
   );
   if (!validateResult.ok) {
-    throw new ParseError(`${validateResult.message}: ${option.name}`);
+    throw optionArgumentsError(option, validateResult, arg);
   }
   return {
     candidates: [
@@ -279,13 +502,15 @@ function parseShortNameOptionArgument(
 function parseOptionArgument(
   options: InternalOption[],
   arg: string,
-  optionArgCandidates: string[]
+  optionArgCandidates: string[],
+  allowAbbreviations: boolean
 ): { candidates: Candidate[]; shift: number } {
   if (arg.startsWith("--")) {
     const { candidate, shift } = parseLongNameOptionArgument(
       options,
       arg,
-      optionArgCandidates
+      optionArgCandidates,
+      allowAbbreviations
     );
     return {
       candidates: [candidate],
@@ -320,7 +545,11 @@ export function parsePositionalArguments(
     const arg = args[i];
     const option = positionalArgs[i];
     if (option === undefined) {
-      throw new ParseError("Too many positional arguments");
+      throw new PositionalArgumentError(
+        "TOO_MANY_POSITIONALS",
+        DEFAULT_MESSAGES.tooManyPositionals,
+        { arg }
+      );
     }
     if (option.isArray) {
       candidates = candidates.concat({
@@ -340,11 +569,20 @@ export interface Parsed {
   candidates: Candidate[];
   positionalCandidates: PositionalCandidate[];
   isHelp: boolean;
+  isHelpAll: boolean; // isHelp is also true
   isVersion: boolean;
+  errors?: ParseError[]; // problems of args. Reported with the validation problems
+}
+
+// An arg at the head of args and the command it was resolved to. e.g. "ol" for "old" with abbreviations
+export interface ResolvedCommand {
+  arg: string;
+  command: InternalCommand;
 }
 
 export type CommandParsed = Parsed & {
   commandName: string | undefined;
+  resolvedCommands?: ResolvedCommand[]; // set when the args are parsed for the found command
 };
 
 function pickNextNonOptionArgumentCandidates(
@@ -369,13 +607,7 @@ export function likesOptionArg(
   if (normalizedArg.startsWith("--")) {
     return true;
   }
-  if (
-    options.some((option) => {
-      return option.alias !== undefined
-        ? `-${option.alias}` === normalizedArg
-        : false;
-    })
-  ) {
+  if (options.some((option) => aliasFlags(option).includes(normalizedArg))) {
     return true;
   }
   if (!normalizedArg.startsWith("-")) {
@@ -393,7 +625,21 @@ interface State {
   positionalCandidates: PositionalCandidate[];
   hasDoubleDash: boolean;
   isHelp: boolean;
+  isHelpAll: boolean;
   isVersion: boolean;
+  errors: ParseError[];
+}
+
+// Records the error and skips the arguments to continue parsing
+function recordError(state: State, error: unknown, shift: number): State {
+  if (!(error instanceof ParseError)) {
+    throw error;
+  }
+  return {
+    ...state,
+    index: state.index + shift,
+    errors: state.errors.concat(error),
+  };
 }
 
 function processDoubleDash(state: State): State {
@@ -407,7 +653,8 @@ function processDoubleDash(state: State): State {
 function processOption(
   state: State,
   args: string[],
-  options: InternalOption[]
+  options: InternalOption[],
+  allowAbbreviations: boolean
 ): State {
   const arg = args[state.index];
   const picked = pickNextNonOptionArgumentCandidates(
@@ -415,12 +662,24 @@ function processOption(
     options
   );
 
-  const { candidates, shift } = parseOptionArgument(options, arg, picked);
-  return {
-    ...state,
-    index: state.index + shift,
-    candidates: state.candidates.concat(candidates),
-  };
+  try {
+    const { candidates, shift } = parseOptionArgument(
+      options,
+      arg,
+      picked,
+      allowAbbreviations
+    );
+    return {
+      ...state,
+      index: state.index + shift,
+      candidates: state.candidates.concat(candidates),
+    };
+  } catch (e) {
+    // ex. "3" of "--point 3" is not a positional argument when point is a tuple
+    const isMissingValue =
+      e instanceof OptionError && e.code === "MISSING_VALUE";
+    return recordError(state, e, isMissingValue ? picked.length + 1 : 1);
+  }
 }
 
 function processPositionalArguments(
@@ -429,27 +688,52 @@ function processPositionalArguments(
   options: InternalOption[],
   positionalArgs: InternalPositionalArgument[]
 ): State {
-  if (state.positionalCandidates.length !== 0) {
-    throw new ParseError("Positional arguments specified twice");
-  }
   const { positionalArgs: picked, shift } = pickPositionalArguments(
     args.slice(state.index),
     options,
     state.hasDoubleDash
   );
-  const positionalCandidates = parsePositionalArguments(picked, positionalArgs);
-
-  return {
-    ...state,
-    positionalCandidates,
-    index: state.index + shift,
-  };
+  if (state.positionalCandidates.length !== 0) {
+    return recordError(
+      state,
+      new PositionalArgumentError(
+        "POSITIONALS_SPECIFIED_TWICE",
+        DEFAULT_MESSAGES.positionalsSpecifiedTwice,
+        { arg: args[state.index] }
+      ),
+      shift
+    );
+  }
+  try {
+    return {
+      ...state,
+      positionalCandidates: parsePositionalArguments(picked, positionalArgs),
+      index: state.index + shift,
+    };
+  } catch (e) {
+    // arguments within the limit are still used
+    return recordError(
+      {
+        ...state,
+        positionalCandidates: parsePositionalArguments(
+          picked.slice(0, positionalArgs.length),
+          positionalArgs
+        ),
+      },
+      e,
+      shift
+    );
+  }
 }
 
 function isHelpOption(arg: string): boolean {
   return arg === "-h" || arg === "--help";
 }
 
+function isHelpAllOption(arg: string): boolean {
+  return arg === "--help-all";
+}
+
 function isVersionOption(arg: string): boolean {
   return arg === "-V" || arg === "--version";
 }
@@ -457,77 +741,211 @@ function isVersionOption(arg: string): boolean {
 interface ParseToFindCommandResult {
   index: number;
   isHelp: boolean;
+  isHelpAll: boolean;
   isVersion: boolean;
   commandName: string | undefined;
+  command: InternalCommand | undefined;
+  resolvedCommands: ResolvedCommand[];
+}
+
+function hasSubcommands(command: InternalCommand): boolean {
+  return command.commands !== undefined && command.commands.length !== 0;
+}
+
+function matchesCommandName(command: InternalCommand, arg: string): boolean {
+  return command.name === arg || command.renamedFrom === arg;
+}
+
+// Exact names come first. Unique prefixes of visible command names are also matched when abbreviations are allowed.
+function findCommandCandidates(
+  commands: InternalCommand[],
+  arg: string,
+  allowAbbreviations: boolean
+): InternalCommand[] {
+  const found = commands.find((command) => matchesCommandName(command, arg));
+  if (found !== undefined) {
+    return [found];
+  }
+  return allowAbbreviations
+    ? commands.filter(
+        (command) => command.hidden !== true && command.name.startsWith(arg)
+      )
+    : [];
+}
+
+function joinCommandPath(path: string[]): string | undefined {
+  return path.length === 0 ? undefined : path.join(" ");
+}
+
+// Walks the command tree from the head of args as long as args match command names.
+function resolveCommandPath(
+  args: string[],
+  commands: InternalCommand[],
+  allowAbbreviations: boolean
+): { path: string[]; command: InternalCommand | undefined } {
+  let path: string[] = [];
+  let command: InternalCommand | undefined;
+  let currentCommands = commands;
+  for (const arg of args) {
+    const found = findCommandCandidates(
+      currentCommands,
+      arg,
+      allowAbbreviations
+    );
+    if (found.length !== 1) {
+      break;
+    }
+    path = path.concat(found[0].name);
+    command = found[0];
+    currentCommands = found[0].commands ?? [];
+  }
+  return { path, command };
 }
 
 function parseToFindCommand(
   args: string[],
-  commandNames: string[]
+  commands: InternalCommand[],
+  allowAbbreviations: boolean
 ): ParseToFindCommandResult {
-  const state: ParseToFindCommandResult = {
+  let state: ParseToFindCommandResult = {
     index: 0,
     isHelp: false,
+    isHelpAll: false,
     isVersion: false,
     commandName: undefined,
+    command: undefined,
+    resolvedCommands: [],
   };
-  debugLog("state", JSON.stringify(state));
+  let path: string[] = [];
+  let currentCommands = commands;
 
-  const arg = args[state.index];
-  if (isHelpOption(arg)) {
-    const next = args[state.index + 1];
-    if (next === undefined) {
-      // global help
-      return { ...state, isHelp: true };
-    } else if (commandNames.includes(next)) {
-      // command help
-      return { ...state, isHelp: true, commandName: next };
+  while (true) {
+    debugLog("state", JSON.stringify(state));
+    const arg = args[state.index];
+    if (arg === undefined) {
+      const error = new CommandError(
+        "MISSING_COMMAND",
+        DEFAULT_MESSAGES.missingCommand
+      );
+      error.commandName = state.commandName;
+      throw error;
     }
-    // e.g. "program --help nonExistingCommand"
-    // e.g. "program --help --version"
-    // e.g. "program --help --option_like"
-    return { ...state, isHelp: true };
-  } else if (isVersionOption(arg)) {
-    return { ...state, isVersion: true };
-  } else if (commandNames.includes(arg)) {
-    return { ...state, commandName: arg, index: state.index + 1 };
-  } else {
-    throw new ParseError(`Unknown command: ${arg}`);
+    if (isHelpOption(arg) || isHelpAllOption(arg)) {
+      // e.g. "program --help nonExistingCommand" shows help of the current level
+      // e.g. "program remote --help add" shows help of "remote add"
+      const resolved = resolveCommandPath(
+        args.slice(state.index + 1),
+        currentCommands,
+        allowAbbreviations
+      );
+      const isHelpAll = isHelpAllOption(arg);
+      if (resolved.command === undefined) {
+        return { ...state, isHelp: true, isHelpAll };
+      }
+      const helpPath = path.concat(resolved.path);
+      return {
+        ...state,
+        isHelp: true,
+        isHelpAll,
+        commandName: joinCommandPath(helpPath),
+        command: resolved.command,
+      };
+    }
+    if (isVersionOption(arg)) {
+      return { ...state, isVersion: true };
+    }
+    const candidates = findCommandCandidates(
+      currentCommands,
+      arg,
+      allowAbbreviations
+    );
+    if (candidates.length > 1) {
+      const names = candidates.map((command) => command.name);
+      const error = new CommandError(
+        "AMBIGUOUS_COMMAND",
+        `${DEFAULT_MESSAGES.ambiguousCommand(arg)}${formatSuggestions(names)}`,
+        arg
+      );
+      error.commandName = state.commandName;
+      error.suggestions = names;
+      throw error;
+    }
+    const found = candidates[0] as InternalCommand | undefined;
+    if (found === undefined) {
+      const suggestions = suggestCommands(currentCommands, arg);
+      const error = new CommandError(
+        "UNKNOWN_COMMAND",
+        `${DEFAULT_MESSAGES.unknownCommand(arg)}${formatSuggestions(
+          suggestions
+        )}`,
+        arg
+      );
+      error.commandName = state.commandName;
+      error.suggestions = suggestions;
+      throw error;
+    }
+    path = path.concat(found.name);
+    state = {
+      ...state,
+      index: state.index + 1,
+      commandName: joinCommandPath(path),
+      command: found,
+      resolvedCommands: state.resolvedCommands.concat({ arg, command: found }),
+    };
+    if (!hasSubcommands(found)) {
+      return state;
+    }
+    currentCommands = found.commands ?? [];
   }
 }
 
+export function findCommandByName(
+  commands: InternalCommand[],
+  commandName: string
+): InternalCommand | undefined {
+  return flattenCommands(
+    commands,
+    (command) => command.name,
+    (command) => command.commands ?? []
+  ).find((entry) => entry.commandName === commandName)?.command;
+}
+
 export function parseMultipleCommands({
   args,
   commands,
+  allowAbbreviations = false,
 }: {
   args: string[];
   commands: InternalCommand[];
+  allowAbbreviations?: boolean;
 }): CommandParsed {
-  const searchResult = parseToFindCommand(
-    args,
-    commands.map((command) => command.name)
-  );
+  const searchResult = parseToFindCommand(args, commands, allowAbbreviations);
   if (searchResult.isHelp || searchResult.isVersion) {
     return {
       candidates: [],
       positionalCandidates: [],
       isHelp: searchResult.isHelp,
+      isHelpAll: searchResult.isHelpAll,
       isVersion: searchResult.isVersion,
       commandName: searchResult.commandName,
     };
   }
-  const foundCommand = commands.find(
-    (command) => command.name === searchResult.commandName
-  );
+  const foundCommand = searchResult.command;
   if (foundCommand === undefined) {
-    throw new ParseError(`Unknown command: ${searchResult.commandName ?? ""}`);
+    const commandName = searchResult.commandName ?? "";
+    throw new CommandError(
+      "UNKNOWN_COMMAND",
+      DEFAULT_MESSAGES.unknownCommand(commandName),
+      commandName
+    );
   }
   let parsed;
   try {
-    parsed = parse({
+    parsed = parseCollectingErrors({
       args: args.slice(searchResult.index),
       options: foundCommand.options,
       positionalArgs: foundCommand.positionalArgs,
+      allowAbbreviations,
     });
   } catch (e) {
     if (e instanceof ParseError) {
@@ -535,17 +953,37 @@ export function parseMultipleCommands({
     }
     throw e;
   }
-  return { ...parsed, commandName: searchResult.commandName };
+  return {
+    ...parsed,
+    commandName: searchResult.commandName,
+    resolvedCommands: searchResult.resolvedCommands,
+  };
+}
+
+export function parse(params: {
+  args: string[];
+  options: InternalOption[];
+  positionalArgs: InternalPositionalArgument[];
+  allowAbbreviations?: boolean;
+}): Parsed {
+  const parsed = parseCollectingErrors(params);
+  if (parsed.errors !== undefined) {
+    throw combineParseErrors(parsed.errors);
+  }
+  return parsed;
 }
 
-export function parse({
+// Same as parse(), but problems of args are returned in errors to be reported with validation problems
+export function parseCollectingErrors({
   args,
   options,
   positionalArgs,
+  allowAbbreviations = false,
 }: {
   args: string[];
   options: InternalOption[];
   positionalArgs: InternalPositionalArgument[];
+  allowAbbreviations?: boolean; // ex. --verb for --verbose
 }): Parsed {
   let state: State = {
     index: 0,
@@ -553,7 +991,9 @@ export function parse({
     positionalCandidates: [],
     hasDoubleDash: false,
     isHelp: false,
+    isHelpAll: false,
     isVersion: false,
+    errors: [],
   };
 
   while (state.index < args.length) {
@@ -567,11 +1007,14 @@ export function parse({
       } else if (isHelpOption(arg)) {
         state = { ...state, isHelp: true };
         break;
+      } else if (isHelpAllOption(arg)) {
+        state = { ...state, isHelp: true, isHelpAll: true };
+        break;
       } else if (isVersionOption(arg)) {
         state = { ...state, isVersion: true };
         break;
       } else if (likesOptionArg(arg, options)) {
-        state = processOption(state, args, options);
+        state = processOption(state, args, options, allowAbbreviations);
       } else {
         state = processPositionalArguments(
           state,
@@ -584,10 +1027,17 @@ export function parse({
   }
   debugLog("state", JSON.stringify(state));
 
+  // Errors before --help or --version take precedence
+  if (state.errors.length !== 0 && (state.isHelp || state.isVersion)) {
+    throw combineParseErrors(state.errors);
+  }
+
   return {
     candidates: state.candidates,
     positionalCandidates: state.positionalCandidates,
     isHelp: state.isHelp,
+    isHelpAll: state.isHelpAll,
     isVersion: state.isVersion,
+    ...(state.errors.length !== 0 ? { errors: state.errors } : {}),
   };
 }
@@ -0,0 +1,238 @@
+import {
+  CommandError,
+  ConfigFileError,
+  OptionError,
+  type ParseError,
+  PositionalArgumentError,
+  ValidationError,
+} from "./error";
+import { formatSuggestions } from "./suggest";
+import type { Messages, MessagesConfig } from "./type";
+
+// ex. ["json", "yaml"] => "--json, --yaml"
+function flagList(names: string[]): string {
+  return names.map((name) => `--${name}`).join(", ");
+}
+
+export const DEFAULT_MESSAGES: Messages = {
+  usage: "Usage:",
+  options: "Options:",
+  arguments: "Arguments:",
+  commands: "Commands:",
+  required: "[required]",
+  deprecated: "[deprecated]",
+  defaultValue: (value) => `(default: ${value})`,
+  choices: (values) => `(choices: ${values.join(", ")})`,
+  env: (envName) => `[env: ${envName}]`,
+  conflicts: (names) => `[conflicts: ${flagList(names)}]`,
+  requires: (names) => `[requires: ${flagList(names)}]`,
+  implies: (names) => `[implies: ${flagList(names)}]`,
+  exactlyOneOf: (names) => `[exactly one of: ${flagList(names)}]`,
+  atLeastOneOf: (names) => `[at least one of: ${flagList(names)}]`,
+  helpDescription: "Show help",
+  helpAllDescription: "Show help including hidden options and commands",
+  versionDescription: "Show version",
+  completionDescription: "Generate shell completion script",
+  configDescription: "Path to config file",
+  unknownOption: (name) => `Invalid option: ${name}`,
+  missingValue: (name) => `Option '${name}' needs value: ${name}`,
+  unexpectedValue: (name) =>
+    `Boolean option '${name}' does not need value: ${name}`,
+  unexpectedCountValue: (name) =>
+    `Count option '${name}' does not take value. Repeat it instead: ${name}`,
+  invalidNegation: (name) =>
+    `Non boolean option '${name}' does not accept --no- prefix: ${name}`,
+  invalidOptionValue: (name, expectedType) =>
+    `Invalid option value. ${expectedType} is expected: ${name}`,
+  invalidEnvValue: (envName, expectedType) =>
+    `Invalid environment variable value. ${expectedType} is expected: ${envName}`,
+  duplicatedOption: (name) => `Duplicated option: ${name}`,
+  missingRequiredOption: (name) => `Required option is missing: ${name}`,
+  conflictingOptions: (names) =>
+    `Options cannot be used together: ${names.join(", ")}`,
+  missingDependentOption: (name, requiredNames) =>
+    `Option '${name}' requires: ${requiredNames.join(", ")}`,
+  missingOptionGroup: (names) =>
+    `One of the options is required: ${names.join(", ")}`,
+  ambiguousOption: (name) => `Ambiguous option: ${name}`,
+  tooManyPositionals: "Too many positional arguments",
+  positionalsSpecifiedTwice: "Positional arguments specified twice",
+  invalidPositionalValue: (name) =>
+    `Invalid positional argument value: ${name}`,
+  duplicatedPositional: (name) => `Duplicated positional argument: ${name}`,
+  missingRequiredPositional: (name) => `Required argument is missing: ${name}`,
+  unknownCommand: (name) => `Unknown command: ${name}`,
+  ambiguousCommand: (name) => `Ambiguous command: ${name}`,
+  missingCommand: "No command specified",
+  configFileRead: (path, reason) =>
+    `Failed to read config file (${path}): ${reason}`,
+  configFileInvalidJson: (path, reason) =>
+    `Invalid JSON in config file (${path}): ${reason}`,
+  configFileNotObject: (path) =>
+    `Config file must contain a JSON object: ${path}`,
+  configFileUnknownKeys: (path, keys) =>
+    `Unknown key in config file (${path}): ${keys.join(", ")}`,
+  zodIssue: (message, path) => `${message}: ${path}`,
+  didYouMean: (candidates) => formatSuggestions(candidates),
+  warning: (text) => `Warning: ${text}`,
+  renamedOption: (from, to) => `Option --${from} is renamed to --${to}`,
+  deprecatedOption: (name, reason) =>
+    `Option --${name} is deprecated: ${reason}`,
+  renamedCommand: (from, to) => `Command ${from} is renamed to ${to}`,
+  deprecatedCommand: (name, reason) =>
+    `Command ${name} is deprecated: ${reason}`,
+};
+
+// Entries not in config fall back to English
+export function resolveMessages(config?: MessagesConfig): Messages {
+  return config === undefined
+    ? DEFAULT_MESSAGES
+    : { ...DEFAULT_MESSAGES, ...config };
+}
+
+// Candidates of zod issues are enum values, and the others are option or command names
+export function formatZodIssue(
+  reason: string,
+  path: PropertyKey[],
+  suggestions: string[],
+  messages: Messages
+): string {
+  return `${messages.zodIssue(
+    reason,
+    path.map(String).join("")
+  )}${messages.didYouMean(suggestions.map((s) => `"${s}"`))}`;
+}
+
+function formatOptionError(error: OptionError, messages: Messages): string {
+  const name = error.optionName;
+  switch (error.code) {
+    case "UNKNOWN_OPTION":
+      return `${messages.unknownOption(name)}${messages.didYouMean(
+        error.suggestions
+      )}`;
+    case "MISSING_VALUE":
+      return messages.missingValue(name);
+    case "UNEXPECTED_VALUE":
+      return messages.unexpectedValue(name);
+    case "UNEXPECTED_COUNT_VALUE":
+      return messages.unexpectedCountValue(name);
+    case "INVALID_NEGATION":
+      return messages.invalidNegation(name);
+    case "INVALID_OPTION_VALUE":
+      return messages.invalidOptionValue(name, error.expectedType ?? "string");
+    case "INVALID_ENV_VALUE":
+      return messages.invalidEnvValue(
+        error.envName ?? "",
+        error.expectedType ?? "string"
+      );
+    case "DUPLICATED_OPTION":
+      return messages.duplicatedOption(name);
+    case "MISSING_REQUIRED_OPTION":
+      return messages.missingRequiredOption(name);
+    case "CONFLICTING_OPTIONS":
+      return messages.conflictingOptions([name, ...error.relatedOptionNames]);
+    case "MISSING_DEPENDENT_OPTION":
+      return messages.missingDependentOption(name, error.relatedOptionNames);
+    case "MISSING_OPTION_GROUP":
+      return messages.missingOptionGroup([name, ...error.relatedOptionNames]);
+    case "AMBIGUOUS_OPTION":
+      return `${messages.ambiguousOption(name)}${messages.didYouMean(
+        error.suggestions
+      )}`;
+  }
+}
+
+function formatPositionalArgumentError(
+  error: PositionalArgumentError,
+  messages: Messages
+): string {
+  const name = error.argumentName ?? "";
+  switch (error.code) {
+    case "TOO_MANY_POSITIONALS":
+      return messages.tooManyPositionals;
+    case "POSITIONALS_SPECIFIED_TWICE":
+      return messages.positionalsSpecifiedTwice;
+    case "INVALID_POSITIONAL_VALUE":
+      return messages.invalidPositionalValue(name);
+    case "DUPLICATED_POSITIONAL":
+      return messages.duplicatedPositional(name);
+    case "MISSING_REQUIRED_POSITIONAL":
+      return messages.missingRequiredPositional(name);
+  }
+}
+
+function formatCommandError(error: CommandError, messages: Messages): string {
+  const arg = error.arg ?? "";
+  switch (error.code) {
+    case "UNKNOWN_COMMAND":
+      return `${messages.unknownCommand(arg)}${messages.didYouMean(
+        error.suggestions
+      )}`;
+    case "MISSING_COMMAND":
+      return messages.missingCommand;
+    case "AMBIGUOUS_COMMAND":
+      return `${messages.ambiguousCommand(arg)}${messages.didYouMean(
+        error.suggestions
+      )}`;
+  }
+}
+
+function formatConfigFileError(
+  error: ConfigFileError,
+  messages: Messages
+): string {
+  switch (error.reason) {
+    case "READ_FAILED":
+      return messages.configFileRead(error.path, error.detail ?? "");
+    case "INVALID_JSON":
+      return messages.configFileInvalidJson(error.path, error.detail ?? "");
+    case "NOT_OBJECT":
+      return messages.configFileNotObject(error.path);
+    case "UNKNOWN_KEY":
+      return messages.configFileUnknownKeys(error.path, error.keys);
+  }
+}
+
+function formatMessage(
+  error: ParseError,
+  messages: Messages
+): string | undefined {
+  if (error.code === "MULTIPLE_ERRORS") {
+    return error.errors.map((e) => e.message).join("\n");
+  }
+  if (error instanceof OptionError) {
+    return formatOptionError(error, messages);
+  }
+  if (error instanceof PositionalArgumentError) {
+    return formatPositionalArgumentError(error, messages);
+  }
+  if (error instanceof CommandError) {
+    return formatCommandError(error, messages);
+  }
+  if (error instanceof ConfigFileError) {
+    return formatConfigFileError(error, messages);
+  }
+  if (error instanceof ValidationError && error.code === "ZOD_VALIDATION") {
+    return formatZodIssue(
+      error.reason,
+      error.path,
+      error.suggestions,
+      messages
+    );
+  }
+  // messages of custom validation are written by users
+  return undefined;
+}
+
+// Messages of errors are rendered again from their fields. Errors in English are returned as is.
+export function localizeParseError(
+  error: ParseError,
+  messages: Messages
+): ParseError {
+  if (messages === DEFAULT_MESSAGES) {
+    return error;
+  }
+  error.errors.forEach((e) => localizeParseError(e, messages));
+  error.message = formatMessage(error, messages) ?? error.message;
+  return error;
+}
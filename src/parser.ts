@@ -2,22 +2,37 @@ import path from "node:path";
 
 import { z, type ZodObject, type ZodRawShape } from "zod";
 
+import { resolveTheme, shouldUseColorForOutput } from "./color";
 import { type Command } from "./command";
 import { CommandParser } from "./command_parser";
-import { ParseError } from "./error";
+import { safeParseWithErrorMap } from "./compat";
+import { generateCompletion } from "./completion";
+import { generateConfigFlagOption } from "./config_file";
 import { generateGlobalHelp } from "./help";
+import { resolveMessages } from "./messages";
 import * as helper from "./parser_helper";
 import type {
+  CompletionShell,
+  ConfigFile,
   GenerateZodShape,
   Handler,
+  HelpFormat,
+  InternalOption,
+  MessagesConfig,
   Narrow,
+  OptionGroupRule,
   Options,
+  OutputConfig,
+  ParseResult,
   ParseResultError,
   ParseResultHelp,
   ParseResultMatch,
   ParseResultVersion,
   PositionalArguments,
+  Theme,
+  ThemeConfig,
   ValidateCallback,
+  ValidateResult,
 } from "./type";
 import * as util from "./util";
 
@@ -29,6 +44,15 @@ interface ParserState {
   positionalArgs: PositionalArguments;
   validation?: ValidateCallback<ZodRawShape>;
   handler?: Handler<ZodRawShape>;
+  output?: OutputConfig;
+  envPrefix?: string;
+  optionGroups?: OptionGroupRule[];
+  allowAbbreviations?: boolean;
+  config?: ConfigFile;
+  groupOrder?: string[];
+  helpWidth?: number;
+  theme?: ThemeConfig;
+  messages?: MessagesConfig;
 }
 
 export class Parser<
@@ -42,6 +66,15 @@ export class Parser<
   private readonly _positionalArgs: PositionalArguments = [];
   private _validation: ValidateCallback<ZodRawShape> | undefined;
   private _handler: Handler<ZodRawShape> | undefined;
+  private _output: OutputConfig = {};
+  private _envPrefix: string | undefined;
+  private _optionGroups: OptionGroupRule[] = [];
+  private _allowAbbreviations = false;
+  private _config: ConfigFile | undefined;
+  private _groupOrder: string[] | undefined;
+  private _helpWidth: number | undefined;
+  private _theme: ThemeConfig | undefined;
+  private _messages: MessagesConfig | undefined;
 
   constructor({
     name,
@@ -51,6 +84,15 @@ export class Parser<
     positionalArgs,
     validation,
     handler,
+    output,
+    envPrefix,
+    optionGroups,
+    allowAbbreviations,
+    config,
+    groupOrder,
+    helpWidth,
+    theme,
+    messages,
   }: {
     name?: string;
     version?: string;
@@ -59,6 +101,15 @@ export class Parser<
     positionalArgs?: Narrow<PositionalArguments>;
     validation?: ValidateCallback<ZodRawShape>;
     handler?: Handler<ZodRawShape>;
+    output?: OutputConfig;
+    envPrefix?: string;
+    optionGroups?: OptionGroupRule[];
+    allowAbbreviations?: boolean;
+    config?: ConfigFile;
+    groupOrder?: string[];
+    helpWidth?: number;
+    theme?: ThemeConfig;
+    messages?: MessagesConfig;
   } = {}) {
     this._name = name;
     this._version = version;
@@ -71,6 +122,21 @@ export class Parser<
     }
     this._validation = validation;
     this._handler = handler;
+    if (output !== undefined) {
+      this._output = output;
+    }
+    this._envPrefix = envPrefix;
+    if (optionGroups !== undefined) {
+      this._optionGroups = optionGroups;
+    }
+    if (allowAbbreviations !== undefined) {
+      this._allowAbbreviations = allowAbbreviations;
+    }
+    this._config = config;
+    this._groupOrder = groupOrder;
+    this._helpWidth = helpWidth;
+    this._theme = theme;
+    this._messages = messages;
   }
 
   name(name: string): this {
@@ -88,6 +154,77 @@ export class Parser<
     return this;
   }
 
+  // Replaces console.log / console.error / process.exit used for help, version and errors
+  output(output: OutputConfig): this {
+    this._output = { ...this._output, ...output };
+    return this;
+  }
+
+  // Options without `env` fall back to `${prefix}_${OPTION_NAME}`. ex. MYAPP_LOG_LEVEL for logLevel
+  envPrefix(prefix: string): this {
+    util.validateEnvPrefix(prefix);
+    this._envPrefix = prefix;
+    return this;
+  }
+
+  // Exactly one of the options must be specified
+  exactlyOneOf(names: Array<keyof TOptions & string>): this {
+    util.validateOptionGroup(names, this._options);
+    this._optionGroups = this._optionGroups.concat({
+      kind: "exactlyOneOf",
+      names,
+    });
+    return this;
+  }
+
+  // At least one of the options must be specified
+  atLeastOneOf(names: Array<keyof TOptions & string>): this {
+    util.validateOptionGroup(names, this._options);
+    this._optionGroups = this._optionGroups.concat({
+      kind: "atLeastOneOf",
+      names,
+    });
+    return this;
+  }
+
+  // Unique prefixes of long option names are accepted. ex. --verb for --verbose
+  allowAbbreviations(allow = true): this {
+    this._allowAbbreviations = allow;
+    return this;
+  }
+
+  // Option values in the JSON file are used when they are not specified by args or environment variables
+  config(config: ConfigFile): this {
+    util.validateParamConfigFile(config, this._options);
+    this._config = config;
+    return this;
+  }
+
+  // Option groups in help are shown in this order. Groups not listed follow in order of appearance.
+  groupOrder(groupOrder: string[]): this {
+    this._groupOrder = groupOrder;
+    return this;
+  }
+
+  // Width to wrap help. Defaults to the terminal width. Infinity disables wrapping.
+  helpWidth(width: number): this {
+    util.validateHelpWidth(width);
+    this._helpWidth = width;
+    return this;
+  }
+
+  // Styles of help and error output. Used only when color is enabled (TTY, NO_COLOR and FORCE_COLOR).
+  theme(theme: ThemeConfig): this {
+    this._theme = { ...this._theme, ...theme };
+    return this;
+  }
+
+  // Text of help, errors and warnings. Entries not specified stay in English.
+  messages(messages: MessagesConfig): this {
+    this._messages = { ...this._messages, ...messages };
+    return this;
+  }
+
   options<TNewOptions extends Options>(
     options: TNewOptions
   ): Parser<TNewOptions, TPositionalArguments> {
@@ -95,6 +232,9 @@ export class Parser<
       options,
       this._positionalArgs
     );
+    if (this._config !== undefined) {
+      util.validateParamConfigFile(this._config, options);
+    }
     return new Parser<TNewOptions, TPositionalArguments>({
       ...this._currentState(),
       options,
@@ -130,43 +270,87 @@ export class Parser<
   }
 
   validation<TShape extends GenerateZodShape<TOptions, TPositionalArguments>>(
-    validation: (parsed: z.infer<ZodObject<TShape>>) => true | string
+    validation: (
+      parsed: z.infer<ZodObject<TShape>>
+    ) => ValidateResult | Promise<ValidateResult>
   ): this {
     this._validation = validation as ValidateCallback<ZodRawShape>;
     return this;
   }
 
   showHelp(): void {
-    const help = this.getHelp();
-    console.log(help); // eslint-disable-line no-console
+    const help = this._generateHelp(
+      resolveTheme(this._theme, shouldUseColorForOutput(this._output, "stdout"))
+    );
+    util.resolveOutput(this._output).stdout(help);
   }
 
-  getHelp(): string {
-    const internalOptions = helper.generateInternalOptions(this._options);
-    const internalPositionalArguments =
-      helper.generateInternalPositionalArguments(this._positionalArgs);
-
-    return generateGlobalHelp({
-      options: internalOptions,
-      positionalArgs: internalPositionalArguments,
+  getCompletion(shell: CompletionShell): string {
+    return generateCompletion({
+      shell,
       name: this._scriptName(),
-      description: this._description,
+      command: {
+        name: this._scriptName(),
+        options: this._internalOptions(),
+        positionalArgs: helper.generateInternalPositionalArguments(
+          this._positionalArgs
+        ),
+      },
       version: this._version,
     });
   }
 
+  getHelp(): string {
+    return this._generateHelp();
+  }
+
   parse<
     T extends z.infer<
       ZodObject<GenerateZodShape<TOptions, TPositionalArguments>>
     >
   >(args?: string[]): T {
+    return this._handleResult(this.safeParse<T>(args));
+  }
+
+  async parseAsync<
+    T extends z.infer<
+      ZodObject<GenerateZodShape<TOptions, TPositionalArguments>>
+    >
+  >(args?: string[]): Promise<T> {
+    const result = this._parseWithoutCustomValidation<T>(args);
+    if (result.type !== "match") {
+      return this._handleResult<T>(result);
+    }
+    const validationError = helper.createCustomValidationError(
+      await helper.runCustomValidationAsync(this._validation, result.parsed),
+      result.help
+    );
+    return this._handleResult(validationError ?? result);
+  }
+
+  // Same as parse(), but returns the result instead of printing and exiting
+  safeParse<
+    T extends z.infer<
+      ZodObject<GenerateZodShape<TOptions, TPositionalArguments>>
+    >
+  >(args?: string[]): ParseResult<T> {
+    const result = this._parseWithoutCustomValidation<T>(args);
+    if (result.type !== "match") {
+      return result;
+    }
+    const validationError = helper.createCustomValidationError(
+      helper.runCustomValidation(this._validation, result.parsed),
+      result.help
+    );
+    return validationError ?? result;
+  }
+
+  private _parseWithoutCustomValidation<T extends Record<string, unknown>>(
+    args: string[] | undefined
+  ): ParseResult<T> {
     const validArgs = args ?? process.argv.slice(2);
 
-    const {
-      _options: options,
-      _positionalArgs: positionalArgs,
-      _handler: handler,
-    } = this;
+    const { _options: options, _positionalArgs: positionalArgs } = this;
 
     // Check support of options and positionalArgs before parsing args
     const shape = helper.generateZodShape(
@@ -181,9 +365,16 @@ export class Parser<
       name: this._scriptName(),
       description: this._description,
       version: this._version,
+      envPrefix: this._envPrefix,
+      optionGroups: this._optionGroups,
+      allowAbbreviations: this._allowAbbreviations,
+      config: this._config,
+      groupOrder: this._groupOrder,
+      format: this._helpFormat(),
+      messages: resolveMessages(this._messages),
     });
     if (internalResult.type !== "match") {
-      this._handleAndExit(internalResult);
+      return internalResult;
     }
 
     const zodParseResult = this._zodParse(
@@ -191,63 +382,56 @@ export class Parser<
       shape
     );
     if (!zodParseResult.success) {
-      this._handleAndExit(zodParseResult.error);
-    }
-
-    const validationError = this._validateByCustomValidation(
-      zodParseResult.value,
-      internalResult.help
-    );
-    if (validationError !== undefined) {
-      this._handleAndExit(validationError);
+      return zodParseResult.error;
     }
-    if (handler != null) {
-      handler({ ...internalResult, parsed: zodParseResult.value });
-    }
-    return zodParseResult.value;
+    return {
+      ...internalResult,
+      parsed: zodParseResult.value,
+    };
   }
 
-  private _validateByCustomValidation<T extends Record<string, unknown>>(
-    value: T,
-    help: string
-  ): ParseResultError | undefined {
-    if (this._validation === undefined) {
-      return undefined;
+  private _handleResult<T extends Record<string, unknown>>(
+    result: ParseResult<T>
+  ): T {
+    if (result.type !== "match") {
+      this._handleAndExit(result);
     }
-    const validationResult = (() => {
-      try {
-        return this._validation(value);
-      } catch (e) {
-        if (e instanceof Error) {
-          return e.message;
-        }
-        throw e;
-      }
-    })();
-    if (validationResult !== true) {
-      return {
-        type: "error",
-        error: new ParseError(validationResult),
-        help,
-        exitCode: 1,
-      };
+    util.writeWarnings(
+      result,
+      util.resolveOutput(this._output),
+      resolveMessages(this._messages)
+    );
+    if (this._handler != null) {
+      this._handler(result);
     }
+    return result.parsed;
   }
 
   private _zodParse<T extends Record<string, unknown>>(
     prevResult: ParseResultMatch<T>,
     shape: z.ZodRawShape
   ): { success: true; value: T } | { success: false; error: ParseResultError } {
-    const result = z.object(shape).safeParse(prevResult.parsed);
+    const messages = resolveMessages(this._messages);
+    const result = safeParseWithErrorMap(
+      z.object(shape),
+      prevResult.parsed,
+      messages.zodErrorMap
+    );
     if (!result.success) {
-      const firstError: z.ZodIssue = result.error.issues[0];
       return {
         success: false,
         error: {
           type: "error",
-          error: new ParseError(
-            `${firstError.message}: ${firstError.path.join("")}`,
-            result.error
+          error: helper.createZodParseError(
+            result.error,
+            prevResult.parsed,
+            [
+              ...this._internalOptions(),
+              ...helper.generateInternalPositionalArguments(
+                this._positionalArgs
+              ),
+            ],
+            messages
           ),
           help: prevResult.help,
           exitCode: 1,
@@ -257,13 +441,38 @@ export class Parser<
     return { success: true, value: result.data as T };
   }
 
+  // Help in results is plain. It is rendered again with the theme when the stream it is written to is colored.
+  private _withStyledHelp<
+    R extends ParseResultError | ParseResultHelp | ParseResultVersion
+  >(result: R): R {
+    const theme = resolveTheme(
+      this._theme,
+      shouldUseColorForOutput(
+        this._output,
+        result.type === "error" ? "stderr" : "stdout"
+      )
+    );
+    if (theme === undefined || result.type === "version") {
+      return result;
+    }
+    // help of --help-all differs from the plain help
+    const showHidden =
+      result.type === "help" && result.help !== this._generateHelp();
+    return { ...result, help: this._generateHelp(theme, showHidden) };
+  }
+
   private _handleAndExit(
     handlerArg: ParseResultError | ParseResultHelp | ParseResultVersion
   ): never {
     if (this._handler != null) {
       this._handler(handlerArg);
     }
-    util.errorExit(handlerArg, this._version);
+    util.errorExit(
+      this._withStyledHelp(handlerArg),
+      this._version,
+      util.resolveOutput(this._output),
+      resolveTheme(this._theme, shouldUseColorForOutput(this._output, "stderr"))
+    );
   }
 
   subcommand(command: Command): CommandParser {
@@ -273,6 +482,9 @@ export class Parser<
     if (Object.keys(this._positionalArgs).length > 0) {
       throw new Error("Cannot add subcommand to parser with args().");
     }
+    if (this._config !== undefined) {
+      throw new Error("Cannot add subcommand to parser with config().");
+    }
     return new CommandParser({
       ...this._currentState(),
     }).subcommand(command);
@@ -287,6 +499,58 @@ export class Parser<
       positionalArgs: this._positionalArgs,
       validation: this._validation,
       handler: this._handler,
+      output: this._output,
+      envPrefix: this._envPrefix,
+      optionGroups: this._optionGroups,
+      allowAbbreviations: this._allowAbbreviations,
+      config: this._config,
+      groupOrder: this._groupOrder,
+      helpWidth: this._helpWidth,
+      theme: this._theme,
+      messages: this._messages,
+    };
+  }
+
+  // Includes the config flag option
+  private _internalOptions(): InternalOption[] {
+    return helper
+      .generateInternalOptions(
+        this._options,
+        this._envPrefix,
+        this._optionGroups
+      )
+      .concat(
+        this._config?.flag !== undefined
+          ? [
+              generateConfigFlagOption(
+                this._config.flag,
+                resolveMessages(this._messages)
+              ),
+            ]
+          : []
+      );
+  }
+
+  private _generateHelp(theme?: Theme, showHidden: boolean = false): string {
+    return generateGlobalHelp({
+      options: this._internalOptions(),
+      positionalArgs: helper.generateInternalPositionalArguments(
+        this._positionalArgs
+      ),
+      name: this._scriptName(),
+      description: this._description,
+      version: this._version,
+      showHidden,
+      groupOrder: this._groupOrder,
+      format: this._helpFormat(theme),
+    });
+  }
+
+  private _helpFormat(theme?: Theme): HelpFormat {
+    return {
+      width: util.resolveHelpWidth(this._helpWidth),
+      theme,
+      messages: resolveMessages(this._messages),
     };
   }
 
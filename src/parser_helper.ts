@@ -1,22 +1,59 @@
-import { type z } from "zod";
+import { z, type ZodRawShape } from "zod";
 
-import { ParseError } from "./error";
+import { safeParseWithErrorMap } from "./compat";
+import { generateConfigFlagOption, resolveConfigValues } from "./config_file";
+import {
+  combineParseErrors,
+  OptionError,
+  ParseError,
+  PositionalArgumentError,
+  ValidationError,
+} from "./error";
 import { generateGlobalHelp } from "./help";
-import { parse } from "./internal_parser";
+import {
+  type Candidate,
+  parseCollectingErrors,
+  type ResolvedCommand,
+} from "./internal_parser";
 import { debugLog } from "./logger";
+import {
+  DEFAULT_MESSAGES,
+  formatZodIssue,
+  localizeParseError,
+} from "./messages";
+import { suggest } from "./suggest";
 import type {
+  ConfigFile,
+  FormatValidOption,
+  FormatValidPositionalArgument,
+  HelpFormat,
   InternalOption,
   InternalPositionalArgument,
+  Messages,
+  OptionGroupRule,
   Options,
   ParseResult,
+  ParseResultError,
   PositionalArguments,
+  ValidateCallback,
+  ValidateResult,
 } from "./type";
-import { validate } from "./validator";
+import { splitKeyValue, uniq } from "./util";
+import { validateCollectingErrors } from "./validator";
+import { convertValue } from "./value_type";
 import * as zodUtil from "./zod_util";
 
-export function generateInternalOptions(options: Options): InternalOption[] {
+export function generateInternalOptions(
+  options: Options,
+  envPrefix?: string,
+  optionGroups: OptionGroupRule[] = []
+): InternalOption[] {
   return Object.entries(options).map(([name, option]) => {
-    return zodUtil.optionToInternal(option, name);
+    const internalOption = zodUtil.optionToInternal(option, name, envPrefix);
+    const rules = optionGroups.filter((rule) => rule.names.includes(name));
+    return rules.length !== 0
+      ? { ...internalOption, optionGroups: rules }
+      : internalOption;
   });
 }
 
@@ -40,6 +77,81 @@ export function generateZodShape(
   return optionShape;
 }
 
+// Later pairs win on duplicated keys. Records in config files are passed as is
+function toRecordValue(item: InternalOption, value: unknown): unknown {
+  if (!Array.isArray(value)) {
+    return value;
+  }
+  return Object.fromEntries(
+    value.flatMap((pair: string) => {
+      const keyValue = splitKeyValue(pair);
+      if (keyValue === undefined) {
+        return [];
+      }
+      const [key, text] = keyValue;
+      return [[key, item.type === "number" ? parseFloat(text) : text]];
+    })
+  );
+}
+
+// Values of value types are converted after validation. ex. "2024-01-31" => Date, ["FOO=1"] => { FOO: "1" }
+export function generateParsedValues(
+  values: Array<FormatValidOption | FormatValidPositionalArgument>,
+  items: Array<InternalOption | InternalPositionalArgument>
+): Record<string, unknown> {
+  return Object.fromEntries(
+    values.map(({ name, value }) => {
+      const item = items.find((i) => i.name === name);
+      if (item !== undefined && "isRecord" in item && item.isRecord === true) {
+        return [name, toRecordValue(item, value)];
+      }
+      const valueType = item?.valueType;
+      return [
+        name,
+        valueType !== undefined ? convertValue(valueType, value) : value,
+      ];
+    })
+  );
+}
+
+export function generateOptionWarnings(
+  candidates: Candidate[],
+  options: InternalOption[],
+  messages: Messages = DEFAULT_MESSAGES
+): string[] {
+  return uniq(
+    candidates.flatMap((candidate) => {
+      const option = options.find((o) => o.name === candidate.name);
+      const renamedWarnings =
+        candidate.renamedFrom !== undefined
+          ? [messages.renamedOption(candidate.renamedFrom, candidate.name)]
+          : [];
+      const deprecatedWarnings =
+        option?.deprecated !== undefined
+          ? [messages.deprecatedOption(candidate.name, option.deprecated)]
+          : [];
+      return renamedWarnings.concat(deprecatedWarnings);
+    })
+  );
+}
+
+export function generateCommandWarnings(
+  resolvedCommands: ResolvedCommand[],
+  messages: Messages = DEFAULT_MESSAGES
+): string[] {
+  return resolvedCommands.flatMap(({ arg, command }) => {
+    const renamedWarnings =
+      command.renamedFrom === arg
+        ? [messages.renamedCommand(arg, command.name)]
+        : [];
+    const deprecatedWarnings =
+      command.deprecated !== undefined
+        ? [messages.deprecatedCommand(command.name, command.deprecated)]
+        : [];
+    return renamedWarnings.concat(deprecatedWarnings);
+  });
+}
+
 export function createInternalParserAndParse({
   options,
   positionalArgs,
@@ -47,6 +159,14 @@ export function createInternalParserAndParse({
   name,
   description,
   version,
+  envPrefix,
+  optionGroups,
+  allowAbbreviations,
+  env = process.env,
+  config,
+  groupOrder,
+  format,
+  messages = DEFAULT_MESSAGES,
 }: {
   options: Options;
   positionalArgs: PositionalArguments;
@@ -54,24 +174,43 @@ export function createInternalParserAndParse({
   name?: string;
   description?: string;
   version?: string;
+  envPrefix?: string;
+  optionGroups?: OptionGroupRule[];
+  allowAbbreviations?: boolean;
+  env?: NodeJS.ProcessEnv;
+  config?: ConfigFile;
+  groupOrder?: string[];
+  format?: HelpFormat;
+  messages?: Messages; // for errors, warnings and the config flag option
 }): ParseResult<object> {
-  const internalOptions = generateInternalOptions(options);
+  const internalOptions = generateInternalOptions(
+    options,
+    envPrefix,
+    optionGroups
+  );
   const internalPositionalArguments =
     generateInternalPositionalArguments(positionalArgs);
+  const configFlagOptions =
+    config?.flag !== undefined
+      ? [generateConfigFlagOption(config.flag, messages)]
+      : [];
 
   const help = generateGlobalHelp({
-    options: internalOptions,
+    options: internalOptions.concat(configFlagOptions),
     positionalArgs: internalPositionalArguments,
     name,
     description,
     version,
+    groupOrder,
+    format,
   });
 
   try {
-    const parsed = parse({
+    const parsed = parseCollectingErrors({
       args,
-      options: internalOptions,
+      options: internalOptions.concat(configFlagOptions),
       positionalArgs: internalPositionalArguments,
+      allowAbbreviations,
     });
     debugLog("createInternalParserAndParse", {
       parsed: JSON.stringify(parsed),
@@ -79,7 +218,18 @@ export function createInternalParserAndParse({
     if (parsed.isHelp) {
       return {
         type: "help",
-        help,
+        help: parsed.isHelpAll
+          ? generateGlobalHelp({
+              options: internalOptions.concat(configFlagOptions),
+              positionalArgs: internalPositionalArguments,
+              name,
+              description,
+              version,
+              showHidden: true,
+              groupOrder,
+              format,
+            })
+          : help,
         exitCode: 0,
       };
     }
@@ -92,17 +242,63 @@ export function createInternalParserAndParse({
       };
     }
 
-    const { options: validOptions, positionalArgs: validPositionalArguments } =
-      validate(parsed, internalOptions, internalPositionalArguments);
+    const configFlagCandidates = parsed.candidates.filter(
+      (candidate) => candidate.name === config?.flag
+    );
+    if (configFlagCandidates.length > 1) {
+      throw new OptionError(
+        "DUPLICATED_OPTION",
+        DEFAULT_MESSAGES.duplicatedOption(config?.flag ?? ""),
+        { optionName: config?.flag ?? "" }
+      );
+    }
+    const configValues =
+      config !== undefined
+        ? resolveConfigValues(
+            config,
+            configFlagCandidates[0]?.value,
+            internalOptions
+          )
+        : {};
+
+    const {
+      options: validOptions,
+      positionalArgs: validPositionalArguments,
+      errors,
+    } = validateCollectingErrors(
+      {
+        ...parsed,
+        candidates: parsed.candidates.filter(
+          (candidate) => candidate.name !== config?.flag
+        ),
+      },
+      internalOptions,
+      internalPositionalArguments,
+      env,
+      configValues
+    );
     debugLog("createInternalParserAndParse", {
       validOptions: JSON.stringify(validOptions),
       validPositionalArguments: JSON.stringify(validPositionalArguments),
     });
-    const validOptionMap = Object.fromEntries(
-      validOptions.map((option) => [option.name, option.value])
+    const validOptionMap = generateParsedValues(validOptions, internalOptions);
+    const validPositionalArgMap = generateParsedValues(
+      validPositionalArguments,
+      internalPositionalArguments
     );
-    const validPositionalArgMap = Object.fromEntries(
-      validPositionalArguments.map((option) => [option.name, option.value])
+    if (errors !== undefined) {
+      throw combineWithZodErrors(
+        errors,
+        generateZodShape(options, positionalArgs),
+        { ...validOptionMap, ...validPositionalArgMap },
+        [...internalOptions, ...internalPositionalArguments],
+        messages
+      );
+    }
+    const warnings = generateOptionWarnings(
+      parsed.candidates,
+      internalOptions,
+      messages
     );
 
     return {
@@ -112,6 +308,7 @@ export function createInternalParserAndParse({
         ...validPositionalArgMap,
       },
       help,
+      ...(warnings.length !== 0 ? { warnings } : {}),
     };
   } catch (e) {
     debugLog("createInternalParserAndParse handle error", e);
@@ -120,9 +317,149 @@ export function createInternalParserAndParse({
     }
     return {
       type: "error",
-      error: e,
+      error: localizeParseError(e, messages),
       exitCode: 1,
       help,
     };
   }
 }
+
+function errorToValidateResult(e: unknown): string {
+  if (e instanceof Error) {
+    return e.message;
+  }
+  throw e;
+}
+
+export function runCustomValidation(
+  validation: ValidateCallback<ZodRawShape> | undefined,
+  value: Record<string, unknown>
+): ValidateResult {
+  if (validation === undefined) {
+    return true;
+  }
+  const result = (() => {
+    try {
+      return validation(value);
+    } catch (e) {
+      return errorToValidateResult(e);
+    }
+  })();
+  if (result instanceof Promise) {
+    throw new Error("Async validation is only supported by parseAsync()");
+  }
+  return result;
+}
+
+export async function runCustomValidationAsync(
+  validation: ValidateCallback<ZodRawShape> | undefined,
+  value: Record<string, unknown>
+): Promise<ValidateResult> {
+  if (validation === undefined) {
+    return true;
+  }
+  try {
+    return await validation(value);
+  } catch (e) {
+    return errorToValidateResult(e);
+  }
+}
+
+// Suggestions for an invalid enum value from its choices. ex. "aple" => ["apple"]
+function suggestChoices(
+  path: PropertyKey[],
+  parsed: Record<string, unknown>,
+  items: Array<InternalOption | InternalPositionalArgument>
+): string[] {
+  const item = items.find((i) => i.name === path[0]);
+  const value = path.reduce<unknown>(
+    (current, key) =>
+      current != null && typeof current === "object"
+        ? (current as Record<PropertyKey, unknown>)[key]
+        : undefined,
+    parsed
+  );
+  if (item?.enumValues === undefined || typeof value !== "string") {
+    return [];
+  }
+  return suggest(value, item.enumValues);
+}
+
+// Every zod issue is reported
+export function createZodParseError(
+  zodError: z.ZodError,
+  parsed: Record<string, unknown>,
+  items: Array<InternalOption | InternalPositionalArgument>,
+  messages: Messages = DEFAULT_MESSAGES
+): ParseError {
+  const errors = zodError.issues.map((issue) => {
+    const suggestions = suggestChoices(issue.path, parsed, items);
+    const error = new ValidationError(
+      "ZOD_VALIDATION",
+      formatZodIssue(issue.message, issue.path, suggestions, messages),
+      issue.path,
+      zodError,
+      issue.message
+    );
+    error.suggestions = suggestions;
+    return error;
+  });
+  return combineParseErrors(errors, zodError);
+}
+
+// ex. "name" of INVALID_OPTION_VALUE
+function reportedNameOf(error: ParseError): string | undefined {
+  if (error instanceof OptionError) {
+    return error.optionName;
+  }
+  return error instanceof PositionalArgumentError
+    ? error.argumentName
+    : undefined;
+}
+
+// Zod issues of the values without problems are reported together with the problems of args
+export function combineWithZodErrors(
+  errors: ParseError[],
+  shape: ZodRawShape,
+  parsed: Record<string, unknown>,
+  items: Array<InternalOption | InternalPositionalArgument>,
+  messages: Messages = DEFAULT_MESSAGES
+): ParseError {
+  const result = safeParseWithErrorMap(
+    z.object(shape),
+    parsed,
+    messages.zodErrorMap
+  );
+  if (result.success) {
+    return combineParseErrors(errors);
+  }
+  const zodError = createZodParseError(result.error, parsed, items, messages);
+  const reportedNames = errors.map(reportedNameOf);
+  const zodErrors = (
+    zodError.errors.length !== 0 ? zodError.errors : [zodError]
+  ).filter(
+    (error) =>
+      !(
+        error instanceof ValidationError &&
+        reportedNames.includes(String(error.path[0]))
+      )
+  );
+  return combineParseErrors(errors.concat(zodErrors));
+}
+
+export function createCustomValidationError(
+  validateResult: ValidateResult,
+  help: string,
+  commandName?: string
+): ParseResultError | undefined {
+  if (validateResult === true) {
+    return undefined;
+  }
+  return {
+    type: "error",
+    error: new ValidationError("CUSTOM_VALIDATION", validateResult),
+    help,
+    exitCode: 1,
+    commandName,
+  };
+}
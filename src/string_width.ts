@@ -0,0 +1,144 @@
+// ex. East Asian wide characters and emoji
+const WIDE_RANGES: Array<[number, number]> = [
+  [0x1100, 0x115f], // Hangul Jamo
+  [0x231a, 0x231b],
+  [0x2329, 0x232a],
+  [0x23e9, 0x23ec],
+  [0x23f0, 0x23f0],
+  [0x23f3, 0x23f3],
+  [0x25fd, 0x25fe],
+  [0x2614, 0x2615],
+  [0x2648, 0x2653],
+  [0x267f, 0x267f],
+  [0x2693, 0x2693],
+  [0x26a1, 0x26a1],
+  [0x26aa, 0x26ab],
+  [0x26bd, 0x26be],
+  [0x26c4, 0x26c5],
+  [0x26ce, 0x26ce],
+  [0x26d4, 0x26d4],
+  [0x26ea, 0x26ea],
+  [0x26f2, 0x26f3],
+  [0x26f5, 0x26f5],
+  [0x26fa, 0x26fa],
+  [0x26fd, 0x26fd],
+  [0x2705, 0x2705],
+  [0x270a, 0x270b],
+  [0x2728, 0x2728],
+  [0x274c, 0x274c],
+  [0x274e, 0x274e],
+  [0x2753, 0x2755],
+  [0x2757, 0x2757],
+  [0x2795, 0x2797],
+  [0x27b0, 0x27b0],
+  [0x27bf, 0x27bf],
+  [0x2b1b, 0x2b1c],
+  [0x2b50, 0x2b50],
+  [0x2b55, 0x2b55],
+  [0x2e80, 0x303e], // CJK Radicals, CJK Symbols and Punctuation
+  [0x3041, 0x33ff], // Hiragana, Katakana, CJK Compatibility
+  [0x3400, 0x4dbf], // CJK Unified Ideographs Extension A
+  [0x4e00, 0x9fff], // CJK Unified Ideographs
+  [0xa000, 0xa4cf], // Yi
+  [0xa960, 0xa97f], // Hangul Jamo Extended-A
+  [0xac00, 0xd7a3], // Hangul Syllables
+  [0xf900, 0xfaff], // CJK Compatibility Ideographs
+  [0xfe10, 0xfe19], // Vertical Forms
+  [0xfe30, 0xfe6f], // CJK Compatibility Forms, Small Form Variants
+  [0xff00, 0xff60], // Fullwidth Forms
+  [0xffe0, 0xffe6],
+  [0x16fe0, 0x16fe4],
+  [0x17000, 0x18cff], // Tangut
+  [0x1b000, 0x1b2ff], // Kana Supplement
+  [0x1f004, 0x1f004],
+  [0x1f0cf, 0x1f0cf],
+  [0x1f18e, 0x1f18e],
+  [0x1f191, 0x1f19a],
+  [0x1f200, 0x1f251],
+  [0x1f300, 0x1f64f], // Miscellaneous Symbols and Pictographs, Emoticons
+  [0x1f680, 0x1f6ff], // Transport and Map Symbols
+  [0x1f7e0, 0x1f7eb],
+  [0x1f90c, 0x1f9ff], // Supplemental Symbols and Pictographs
+  [0x1fa70, 0x1faff],
+  [0x20000, 0x3fffd], // CJK Unified Ideographs Extension B and later
+];
+
+const ZERO_WIDTH_RANGES: Array<[number, number]> = [
+  [0x0000, 0x001f], // control characters
+  [0x007f, 0x009f],
+  [0x0300, 0x036f], // combining diacritical marks
+  [0x200b, 0x200f], // zero width space, joiner, etc.
+  [0x20d0, 0x20ff], // combining diacritical marks for symbols
+  [0xfe00, 0xfe0f], // variation selectors
+  [0xfe20, 0xfe2f], // combining half marks
+  [0x1f3fb, 0x1f3ff], // emoji skin tone modifiers
+  [0xe0100, 0xe01ef], // variation selectors supplement
+];
+
+// eslint-disable-next-line no-control-regex
+const ANSI_ESCAPE_REGEX = /\u001b\[[0-9;]*m/g;
+
+function inRanges(codePoint: number, ranges: Array<[number, number]>): boolean {
+  return ranges.some(([from, to]) => from <= codePoint && codePoint <= to);
+}
+
+function charWidth(char: string): number {
+  const codePoint = char.codePointAt(0) ?? 0;
+  if (inRanges(codePoint, ZERO_WIDTH_RANGES)) {
+    return 0;
+  }
+  return inRanges(codePoint, WIDE_RANGES) ? 2 : 1;
+}
+
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_ESCAPE_REGEX, "");
+}
+
+// Number of columns used on terminals. ANSI escape sequences are not counted.
+export function stringWidth(text: string): number {
+  return Array.from(stripAnsi(text)).reduce(
+    (sum, char) => sum + charWidth(char),
+    0
+  );
+}
+
+export function padEndWidth(text: string, width: number): string {
+  return text + " ".repeat(Math.max(width - stringWidth(text), 0));
+}
+
+// Splits a word wider than width
+function splitWord(word: string, width: number): string[] {
+  return Array.from(word).reduce<string[]>((lines, char) => {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && stringWidth(last + char) <= width) {
+      return lines.slice(0, -1).concat(last + char);
+    }
+    return lines.concat(char);
+  }, []);
+}
+
+function wrapParagraph(paragraph: string, width: number): string[] {
+  const words = paragraph
+    .split(" ")
+    .filter((word) => word !== "")
+    .flatMap((word) =>
+      stringWidth(word) > width ? splitWord(word, width) : [word]
+    );
+  const lines = words.reduce<string[]>((acc, word) => {
+    const last = acc[acc.length - 1];
+    if (last !== undefined && stringWidth(`${last} ${word}`) <= width) {
+      return acc.slice(0, -1).concat(`${last} ${word}`);
+    }
+    return acc.concat(word);
+  }, []);
+  return lines.length === 0 ? [""] : lines;
+}
+
+// Each line of text is a paragraph. Paragraphs are wrapped when width is specified.
+export function wrapText(text: string, width?: number): string[] {
+  return text
+    .split("\n")
+    .flatMap((paragraph) =>
+      width === undefined ? [paragraph] : wrapParagraph(paragraph, width)
+    );
+}
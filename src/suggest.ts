@@ -0,0 +1,79 @@
+import type { InternalCommand, InternalOption } from "./type";
+import { aliasFlags, uniq } from "./util";
+
+// Optimal string alignment distance. A transposition of adjacent characters counts as one edit. ex. "biuld" => "build"
+export function editDistance(a: string, b: string): number {
+  const d = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) =>
+      i === 0 ? j : j === 0 ? i : 0
+    )
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// Candidates closest to input. Single characters have no suggestions.
+export function suggest(input: string, candidates: string[]): string[] {
+  const maxDistance = Math.floor((input.length + 1) / 3);
+  const scored = uniq(candidates).map((candidate) => ({
+    candidate,
+    distance: editDistance(input.toLowerCase(), candidate.toLowerCase()),
+  }));
+  const minDistance = Math.min(...scored.map(({ distance }) => distance));
+  if (minDistance > maxDistance) {
+    return [];
+  }
+  return scored
+    .filter(({ distance }) => distance === minDistance)
+    .map(({ candidate }) => candidate);
+}
+
+// ex. "verbos" => ["--verbose"]
+export function suggestOptions(
+  options: InternalOption[],
+  name: string
+): string[] {
+  const visibleOptions = options.filter((option) => option.hidden !== true);
+  const prefixed = new Map(
+    visibleOptions.flatMap(
+      (option): Array<[string, string]> =>
+        [[option.name, `--${option.name}`] as [string, string]].concat(
+          aliasFlags(option).map((flag) => [flag.replace(/^-+/, ""), flag])
+        )
+    )
+  );
+  return suggest(name, [...prefixed.keys()]).map(
+    (suggestion) => prefixed.get(suggestion) ?? suggestion
+  );
+}
+
+export function suggestCommands(
+  commands: InternalCommand[],
+  name: string
+): string[] {
+  return suggest(
+    name,
+    commands
+      .filter((command) => command.hidden !== true)
+      .map((command) => command.name)
+  );
+}
+
+// Appended to error messages. ex. ["--verbose", "--version"] => ". Did you mean --verbose or --version?"
+export function formatSuggestions(suggestions: string[]): string {
+  return suggestions.length !== 0
+    ? `. Did you mean ${suggestions.join(" or ")}?`
+    : "";
+}
@@ -9,16 +9,103 @@ import {
 export const BASE_TYPES = ["number", "string", "boolean"] as const;
 export type BaseType = (typeof BASE_TYPES)[number];
 export type BaseTypeT = number | string | boolean;
+export type TupleValue = Array<string | number>; // ex. [3, 4] of z.tuple([z.number(), z.number()])
+
+export const OPTION_ERROR_CODES = [
+  "UNKNOWN_OPTION", // ex. --unknown
+  "MISSING_VALUE", // ex. --opt1 without value
+  "UNEXPECTED_VALUE", // ex. --flag=10 for boolean option
+  "UNEXPECTED_COUNT_VALUE", // ex. --verbose=2 for count option
+  "INVALID_NEGATION", // ex. --no-opt1 for non boolean option
+  "INVALID_OPTION_VALUE", // ex. --num abc
+  "INVALID_ENV_VALUE",
+  "DUPLICATED_OPTION",
+  "MISSING_REQUIRED_OPTION",
+  "CONFLICTING_OPTIONS", // ex. --json --yaml when they conflict
+  "MISSING_DEPENDENT_OPTION", // ex. --password without --user when password requires user
+  "MISSING_OPTION_GROUP", // none of exactlyOneOf() or atLeastOneOf() options
+  "AMBIGUOUS_OPTION", // ex. --verb for --verbose and --verbatim with allowAbbreviations()
+] as const;
+export type OptionErrorCode = (typeof OPTION_ERROR_CODES)[number];
+
+export const POSITIONAL_ARGUMENT_ERROR_CODES = [
+  "TOO_MANY_POSITIONALS",
+  "POSITIONALS_SPECIFIED_TWICE", // ex. pos1 --opt1 str pos2
+  "INVALID_POSITIONAL_VALUE",
+  "DUPLICATED_POSITIONAL",
+  "MISSING_REQUIRED_POSITIONAL",
+] as const;
+export type PositionalArgumentErrorCode =
+  (typeof POSITIONAL_ARGUMENT_ERROR_CODES)[number];
+
+export const COMMAND_ERROR_CODES = [
+  "UNKNOWN_COMMAND",
+  "MISSING_COMMAND",
+  "AMBIGUOUS_COMMAND", // ex. re for remote and rename with allowAbbreviations()
+] as const;
+export type CommandErrorCode = (typeof COMMAND_ERROR_CODES)[number];
+
+export const VALIDATION_ERROR_CODES = [
+  "ZOD_VALIDATION",
+  "CUSTOM_VALIDATION",
+] as const;
+export type ValidationErrorCode = (typeof VALIDATION_ERROR_CODES)[number];
+
+export const CONFIG_FILE_ERROR_REASONS = [
+  "READ_FAILED",
+  "INVALID_JSON",
+  "NOT_OBJECT",
+  "UNKNOWN_KEY",
+] as const;
+export type ConfigFileErrorReason = (typeof CONFIG_FILE_ERROR_REASONS)[number];
+
+export type ParseErrorCode =
+  | OptionErrorCode
+  | PositionalArgumentErrorCode
+  | CommandErrorCode
+  | ValidationErrorCode
+  | "CONFIG_FILE"
+  | "MULTIPLE_ERRORS" // each problem is in errors
+  | "PARSE_ERROR"; // other problems
+
+export const COMPLETION_SHELLS = ["bash", "zsh", "fish"] as const;
+export type CompletionShell = (typeof COMPLETION_SHELLS)[number];
 
 export interface Option {
   type: ZodTypeAny;
   argumentName?: string;
   alias?: string;
+  aliases?: string[]; // one character is a short alias like -o, and the others are long aliases like --out. ex. ["o", "out"]
   description?: string;
+  env?: string; // environment variable used when the option is not specified
+  hidden?: boolean; // parsed, but shown only by --help-all
+  deprecated?: string; // warning shown when the option is used. ex. "use --output instead"
+  renamedFrom?: string; // old name accepted with warning. ex. "old-name"
+  group?: string; // section title in help. ex. "Networking"
+  count?: boolean; // number of occurrences is the value. ex. -vvv => 3. type must be number
+  separator?: string; // splits each value of an array option. ex. "," for --tags a,b
+  conflicts?: string[]; // options that cannot be used with this option. ex. ["yaml"]
+  requires?: string[]; // options that must be used with this option. ex. ["user"]
+  implies?: Record<string, unknown>; // values of other options set when this option is used. ex. { color: false }
 }
 
 export type Options = Record<string, Option>;
 
+// Declared by exactlyOneOf() and atLeastOneOf()
+export interface OptionGroupRule {
+  kind: "exactlyOneOf" | "atLeastOneOf";
+  names: string[];
+}
+
+// Type of values other than string, number and boolean. ex. Date for z.date()
+export interface ValueType<T = unknown> {
+  name: string; // used in error messages. ex. "date"
+  placeholder?: string; // shown in help. ex. "date" for --since <date>. Defaults to name
+  test: (schema: ZodTypeAny) => boolean; // recognizes the zod schema. Called for each wrapper like optional() and default()
+  parse: (value: string) => T | undefined; // converts the raw string of args, environment variables and config files. undefined means invalid
+  format?: (value: T) => string; // default value in help. Defaults to String()
+}
+
 export interface PositionalArgument {
   name: string;
   type: ZodTypeAny;
@@ -63,6 +150,7 @@ export interface ParseResultMatch<T> {
   parsed: T;
   help: string;
   commandName?: string;
+  warnings?: string[]; // ex. usage of deprecated options. Written to stderr by parse()
 }
 
 export interface ParseResultError {
@@ -96,12 +184,36 @@ export interface InternalOption {
   type: BaseType;
   name: string; // ex. opt1
   alias?: string; // ex. o, ab
+  aliases?: string[]; // ex. o, out
   argumentName?: string;
   description?: string;
   required: boolean;
-  defaultValue?: string | number | string[] | number[] | boolean;
+  defaultValue?:
+    | string
+    | number
+    | bigint
+    | string[]
+    | number[]
+    | bigint[]
+    | boolean
+    | TupleValue
+    | TupleValue[];
   isArray: boolean;
   enumValues?: string[];
+  envName?: string; // ex. MYAPP_OPT1
+  hidden?: boolean;
+  deprecated?: string;
+  renamedFrom?: string;
+  group?: string;
+  valueType?: string; // name of the registered value type. type is "string" then. ex. "date"
+  isRecord?: boolean; // values are key=value pairs. isArray is also true, and type is the type of the values
+  tupleTypes?: Array<"string" | "number">; // element types of z.tuple(). isArray is true for z.array(z.tuple())
+  count?: boolean; // takes no value, and occurrences are counted. type is "number"
+  separator?: string; // each occurrence takes one value, and it is split into items
+  conflicts?: string[];
+  requires?: string[];
+  implies?: Record<string, unknown>;
+  optionGroups?: OptionGroupRule[]; // rules the option belongs to
 }
 
 export interface InternalPositionalArgument {
@@ -110,8 +222,9 @@ export interface InternalPositionalArgument {
   description?: string;
   required: boolean;
   isArray: boolean;
-  defaultValue?: string | number | string[] | number[];
+  defaultValue?: string | number | bigint | string[] | number[] | bigint[];
   enumValues?: string[];
+  valueType?: string;
 }
 
 export interface InternalCommand {
@@ -119,6 +232,10 @@ export interface InternalCommand {
   description?: string;
   options: InternalOption[];
   positionalArgs: InternalPositionalArgument[];
+  commands?: InternalCommand[]; // nested subcommands
+  hidden?: boolean;
+  deprecated?: string;
+  renamedFrom?: string;
 }
 
 export type Handler<T extends ZodRawShape> = (
@@ -129,13 +246,130 @@ export type Handler<T extends ZodRawShape> = (
     | ParseResultVersion
 ) => void;
 
+export interface OutputConfig {
+  stdout?: (text: string) => void; // default: console.log
+  stderr?: (text: string) => void; // default: console.error
+  // default: process.exit. If exit() returns, ExitError is thrown instead.
+  exit?: (exitCode: number) => void;
+}
+
+export type Output = Required<OutputConfig>;
+
+// Styles of help and error output. Each function receives plain text and returns decorated text.
+export interface Theme {
+  heading: (text: string) => string; // ex. "Usage:", "Options:"
+  flag: (text: string) => string; // ex. "--opt1", "-o", command names
+  placeholder: (text: string) => string; // ex. "<string>"
+  required: (text: string) => string; // "[required]"
+  error: (text: string) => string; // error message
+}
+
+export type ThemeConfig = Partial<Theme>;
+
+// Issue passed to the zod error map. Fields other than code and path differ between zod v3 and v4.
+export interface ZodIssueLike extends Record<string, unknown> {
+  code: string; // ex. "invalid_type", "too_small"
+  path?: PropertyKey[];
+}
+
+// Returns a translated message of the issue, or undefined to use the message of zod
+export type ZodErrorMap = (issue: ZodIssueLike) => string | undefined;
+
+// User-facing text of help, errors and warnings. English by default.
+export interface Messages {
+  // help
+  usage: string; // "Usage:"
+  options: string; // "Options:"
+  arguments: string; // "Arguments:"
+  commands: string; // "Commands:"
+  required: string; // "[required]"
+  deprecated: string; // "[deprecated]"
+  defaultValue: (value: string) => string; // value is formatted by its type. ex. '(default: "a")', "(default: 5)"
+  choices: (values: string[]) => string; // values are formatted by their type. ex. '(choices: "a", "b")', "(choices: 1, 2)"
+  env: (envName: string) => string; // ex. "[env: MYAPP_OPT1]"
+  conflicts: (names: string[]) => string; // ex. "[conflicts: --yaml]"
+  requires: (names: string[]) => string; // ex. "[requires: --user]"
+  implies: (names: string[]) => string; // ex. "[implies: --color]"
+  exactlyOneOf: (names: string[]) => string; // ex. "[exactly one of: --json, --yaml]"
+  atLeastOneOf: (names: string[]) => string; // ex. "[at least one of: --file, --url]"
+  helpDescription: string;
+  helpAllDescription: string;
+  versionDescription: string;
+  completionDescription: string; // command added by completion()
+  configDescription: string; // flag option of config()
+  // errors
+  unknownOption: (name: string) => string;
+  missingValue: (name: string) => string;
+  unexpectedValue: (name: string) => string;
+  unexpectedCountValue: (name: string) => string;
+  invalidNegation: (name: string) => string;
+  invalidOptionValue: (name: string, expectedType: string) => string; // expectedType ex. "number", "date"
+  invalidEnvValue: (envName: string, expectedType: string) => string;
+  duplicatedOption: (name: string) => string;
+  missingRequiredOption: (name: string) => string;
+  conflictingOptions: (names: string[]) => string;
+  missingDependentOption: (name: string, requiredNames: string[]) => string;
+  missingOptionGroup: (names: string[]) => string;
+  ambiguousOption: (name: string) => string;
+  tooManyPositionals: string;
+  positionalsSpecifiedTwice: string;
+  invalidPositionalValue: (name: string) => string;
+  duplicatedPositional: (name: string) => string;
+  missingRequiredPositional: (name: string) => string;
+  unknownCommand: (name: string) => string;
+  ambiguousCommand: (name: string) => string;
+  missingCommand: string;
+  configFileRead: (path: string, reason: string) => string;
+  configFileInvalidJson: (path: string, reason: string) => string;
+  configFileNotObject: (path: string) => string;
+  configFileUnknownKeys: (path: string, keys: string[]) => string;
+  zodIssue: (message: string, path: string) => string; // message is from zod or zodErrorMap
+  didYouMean: (candidates: string[]) => string; // appended to errors. ex. ". Did you mean --verbose?"
+  // warnings
+  warning: (text: string) => string; // ex. "Warning: ..."
+  renamedOption: (from: string, to: string) => string;
+  deprecatedOption: (name: string, reason: string) => string;
+  renamedCommand: (from: string, to: string) => string;
+  deprecatedCommand: (name: string, reason: string) => string;
+  zodErrorMap?: ZodErrorMap;
+}
+
+export type MessagesConfig = Partial<Messages>;
+
+export interface HelpFormat {
+  width?: number; // terminal width to wrap descriptions. undefined means no wrapping
+  theme?: Theme; // undefined means no styling
+  messages?: Messages; // undefined means English
+}
+
+export interface ConfigFile {
+  path?: string; // JSON file loaded when the flag is not specified. Missing file is ignored.
+  flag?: string; // option name to specify JSON file. ex. "config" for --config <path>
+}
+
+export type ValidateResult = true | string;
+
+// Promise is only supported by parseAsync()
 export type ValidateCallback<T extends ZodRawShape> = (
   parsed: z.infer<ZodObject<T>>
-) => true | string;
+) => ValidateResult | Promise<ValidateResult>;
+
+// non-zero number is passed to the exit of output() by parseAsync()
+export type ActionCallback<T extends ZodRawShape> = (
+  parsed: z.infer<ZodObject<T>>
+) => unknown;
 
 export interface FormatValidOption {
   name: string;
-  value: string | number | boolean | string[] | number[] | undefined; // undefined of non required(optional / default)
+  value:
+    | string
+    | number
+    | boolean
+    | string[]
+    | number[]
+    | TupleValue
+    | TupleValue[]
+    | undefined; // undefined of non required(optional / default)
 }
 
 export interface FormatValidPositionalArgument {
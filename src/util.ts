@@ -1,37 +1,155 @@
 import { z } from "zod";
 
+import { PLAIN_THEME } from "./color";
+import { ExitError } from "./error";
+import { DEFAULT_MESSAGES } from "./messages";
 import type {
+  ConfigFile,
+  Messages,
   Option,
   Options,
+  Output,
+  OutputConfig,
   ParseResultError,
   ParseResultHelp,
+  ParseResultMatch,
   ParseResultVersion,
   PositionalArgument,
   PositionalArguments,
+  Theme,
 } from "./type";
 
 export function uniq<T>(array: T[]): T[] {
   return [...new Set(array)];
 }
 
+// Commands and their descendants with the full command paths. ex. "remote add"
+export function flattenCommands<T>(
+  commands: T[],
+  getName: (command: T) => string,
+  getSubcommands: (command: T) => T[],
+  parentPath: string[] = []
+): Array<{ commandName: string; command: T }> {
+  return commands.flatMap((command) => {
+    const path = parentPath.concat(getName(command));
+    return [{ commandName: path.join(" "), command }].concat(
+      flattenCommands(getSubcommands(command), getName, getSubcommands, path)
+    );
+  });
+}
+
 export function findDuplicateValues(array: string[]): string[] {
   return array.filter((e, i, a) => a.indexOf(e) !== i);
 }
 
+export function resolveOutput(config: OutputConfig = {}): Output {
+  return {
+    stdout: config.stdout ?? ((text) => console.log(text)), // eslint-disable-line no-console
+    stderr: config.stderr ?? ((text) => console.error(text)), // eslint-disable-line no-console
+    exit: config.exit ?? ((exitCode) => process.exit(exitCode)),
+  };
+}
+
+// override > columns of stdout (TTY) > COLUMNS. undefined means no wrapping.
+export function resolveHelpWidth(
+  override?: number,
+  env: NodeJS.ProcessEnv = process.env
+): number | undefined {
+  if (override !== undefined) {
+    return Number.isFinite(override) ? override : undefined;
+  }
+  if (process.stdout.isTTY && process.stdout.columns > 0) {
+    return process.stdout.columns;
+  }
+  const columns = Number(env.COLUMNS);
+  return Number.isInteger(columns) && columns > 0 ? columns : undefined;
+}
+
+export function validateHelpWidth(width: number): void {
+  if (!(width > 0 && (Number.isInteger(width) || width === Infinity))) {
+    throw new Error(`Invalid help width: ${width}`);
+  }
+}
+
 export function errorExit(
   parseResult: ParseResultError | ParseResultHelp | ParseResultVersion,
-  version: string = "none"
+  version: string = "none",
+  output: Output = resolveOutput(),
+  theme: Theme = PLAIN_THEME
 ): never {
   const { type, help, exitCode } = parseResult;
   if (type === "help") {
-    console.log(help); // eslint-disable-line no-console
+    output.stdout(help);
   } else if (type === "version") {
-    console.log(version); // eslint-disable-line no-console
+    output.stdout(version);
   } else {
-    console.error(`${parseResult.error.message}\n`); // eslint-disable-line no-console
-    console.error(help); // eslint-disable-line no-console
+    output.stderr(`${theme.error(parseResult.error.message)}\n`);
+    output.stderr(help);
   }
-  process.exit(exitCode);
+  output.exit(exitCode);
+  throw new ExitError(exitCode);
+}
+
+export function writeWarnings(
+  parseResult: ParseResultMatch<unknown>,
+  output: Output = resolveOutput(),
+  messages: Messages = DEFAULT_MESSAGES
+): void {
+  (parseResult.warnings ?? []).forEach((warning) => {
+    output.stderr(messages.warning(warning));
+  });
+}
+
+// ex. ("MYAPP", "logLevel") => "MYAPP_LOG_LEVEL", ("MYAPP", "log-level") => "MYAPP_LOG_LEVEL"
+export function toEnvName(prefix: string, optionName: string): string {
+  const name = optionName
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/-/g, "_")
+    .toUpperCase();
+  return `${prefix}_${name}`;
+}
+
+// ex. "FOO=1" => ["FOO", "1"], "URL=a=b" => ["URL", "a=b"]. undefined for "FOO" and "=1"
+export function splitKeyValue(text: string): [string, string] | undefined {
+  const index = text.indexOf("=");
+  if (index <= 0) {
+    return undefined;
+  }
+  return [text.slice(0, index), text.slice(index + 1)];
+}
+
+// ex. "a,b\\,c" => ["a", "b,c"]. A backslash before the separator escapes it.
+export function splitBySeparator(text: string, separator: string): string[] {
+  const items: string[] = [];
+  let current = "";
+  let i = 0;
+  while (i < text.length) {
+    if (text.startsWith(`\\${separator}`, i)) {
+      current += separator;
+      i += separator.length + 1;
+    } else if (text.startsWith(separator, i)) {
+      items.push(current);
+      current = "";
+      i += separator.length;
+    } else {
+      current += text[i];
+      i += 1;
+    }
+  }
+  return items.concat(current);
+}
+
+// ex. { alias: "ab", aliases: ["o", "out"] } => ["-ab", "-o", "--out"]
+export function aliasFlags({
+  alias,
+  aliases = [],
+}: {
+  alias?: string;
+  aliases?: string[];
+}): string[] {
+  return (alias !== undefined ? [`-${alias}`] : []).concat(
+    aliases.map((a) => (a.length === 1 ? `-${a}` : `--${a}`))
+  );
 }
 
 const IdRegexStr = "^[A-Za-z0-9_]+[A-Za-z0-9_-]*$";
@@ -41,8 +159,13 @@ const OptionAliasSchema = z
   .string()
   .regex(new RegExp(OptionAliasRegexStr))
   .max(10);
+const EnvNameRegexStr = "^[A-Za-z_][A-Za-z0-9_]*$";
+const EnvNameSchema = z.string().regex(new RegExp(EnvNameRegexStr));
 
-function validateParamOption(name: string, { alias }: Option): void {
+function validateParamOption(
+  name: string,
+  { alias, aliases = [], env, renamedFrom, separator }: Option
+): void {
   if (!IdSchema.safeParse(name).success) {
     throw new Error(
       `Invalid option name. Supported pattern is /${IdRegexStr}/: ${name}`
@@ -53,6 +176,79 @@ function validateParamOption(name: string, { alias }: Option): void {
       `Invalid option alias. Supported pattern is /${OptionAliasRegexStr}/: ${alias}`
     );
   }
+  aliases.forEach((a) => {
+    const [schema, regexStr] =
+      a.length === 1
+        ? [OptionAliasSchema, OptionAliasRegexStr]
+        : [IdSchema, IdRegexStr];
+    if (!schema.safeParse(a).success) {
+      throw new Error(
+        `Invalid option alias. Supported pattern is /${regexStr}/: ${a}`
+      );
+    }
+  });
+  if (env !== undefined && !EnvNameSchema.safeParse(env).success) {
+    throw new Error(
+      `Invalid environment variable name. Supported pattern is /${EnvNameRegexStr}/: ${env}`
+    );
+  }
+  if (renamedFrom !== undefined && !IdSchema.safeParse(renamedFrom).success) {
+    throw new Error(
+      `Invalid renamed option name. Supported pattern is /${IdRegexStr}/: ${renamedFrom}`
+    );
+  }
+  if (
+    separator !== undefined &&
+    (separator === "" || separator.includes("\\"))
+  ) {
+    throw new Error(
+      `Separator must be non-empty and must not contain backslash: ${name}`
+    );
+  }
+}
+
+const BUILT_IN_OPTION_FLAGS = ["-h", "--help", "--help-all", "-V", "--version"];
+
+// Flags of names, renamed names and aliases. ex. --output, --out, -o
+function optionFlags(options: Options): string[] {
+  return Object.entries(options).flatMap(([name, option]) =>
+    [`--${name}`]
+      .concat(
+        option.renamedFrom !== undefined ? [`--${option.renamedFrom}`] : []
+      )
+      .concat(aliasFlags(option))
+  );
+}
+
+// The config flag must not be used by options or built-in options
+export function validateParamConfigFile(
+  { path, flag }: ConfigFile,
+  options: Options = {}
+): void {
+  if (path === undefined && flag === undefined) {
+    throw new Error("path or flag is required for config file");
+  }
+  if (flag === undefined) {
+    return;
+  }
+  if (!IdSchema.safeParse(flag).success) {
+    throw new Error(
+      `Invalid config flag name. Supported pattern is /${IdRegexStr}/: ${flag}`
+    );
+  }
+  if (
+    BUILT_IN_OPTION_FLAGS.concat(optionFlags(options)).includes(`--${flag}`)
+  ) {
+    throw new Error(`Duplicated option flag: --${flag}`);
+  }
+}
+
+export function validateEnvPrefix(prefix: string): void {
+  if (!EnvNameSchema.safeParse(prefix).success) {
+    throw new Error(
+      `Invalid environment variable prefix. Supported pattern is /${EnvNameRegexStr}/: ${prefix}`
+    );
+  }
 }
 
 function validateParamPositionalArg({ name }: PositionalArgument): void {
@@ -64,12 +260,29 @@ function validateParamPositionalArg({ name }: PositionalArgument): void {
 }
 
 function checkForDuplicateOptionNames(options: Options | undefined): void {
-  const duplicateName = findDuplicateValues(Object.keys(options ?? {}));
+  const renamedFromNames = Object.values(options ?? {}).flatMap(
+    ({ renamedFrom }) => (renamedFrom !== undefined ? [renamedFrom] : [])
+  );
+  const duplicateName = findDuplicateValues(
+    Object.keys(options ?? {}).concat(renamedFromNames)
+  );
   if (duplicateName.length !== 0) {
     throw new Error(`Duplicated option name: ${duplicateName.join(", ")}`);
   }
 }
 
+// Aliases must not be used by other options or built-in options
+function checkForDuplicateOptionFlags(options: Options): void {
+  const duplicateFlags = findDuplicateValues(
+    BUILT_IN_OPTION_FLAGS.concat(optionFlags(options))
+  );
+  if (duplicateFlags.length !== 0) {
+    throw new Error(
+      `Duplicated option flag: ${uniq(duplicateFlags).join(", ")}`
+    );
+  }
+}
+
 function checkForDuplicatePositionalOptionNames(
   positionalArgs: PositionalArguments
 ): void {
@@ -95,6 +308,42 @@ function checkIfOptNameUsedWithPositionalOption(
   });
 }
 
+// Options in conflicts, requires and implies must be declared
+function checkOptionRelations(options: Options): void {
+  Object.entries(options).forEach(([optionName, option]) => {
+    const relations = {
+      conflicts: option.conflicts ?? [],
+      requires: option.requires ?? [],
+      implies: Object.keys(option.implies ?? {}),
+    };
+    Object.entries(relations).forEach(([relation, names]) => {
+      names.forEach((name) => {
+        if (name === optionName || !(name in options)) {
+          throw new Error(
+            `Invalid option name in ${relation} of ${optionName}: ${name}`
+          );
+        }
+      });
+    });
+  });
+}
+
+export function validateOptionGroup(names: string[], options: Options): void {
+  if (names.length < 2) {
+    throw new Error("Option group needs two or more options");
+  }
+  const unknownName = names.find((name) => !(name in options));
+  if (unknownName !== undefined) {
+    throw new Error(`Invalid option name in option group: ${unknownName}`);
+  }
+  const duplicateName = findDuplicateValues(names);
+  if (duplicateName.length !== 0) {
+    throw new Error(
+      `Duplicated option name in option group: ${duplicateName.join(", ")}`
+    );
+  }
+}
+
 export function validateParamOptionsAndPositionalArguments(
   options: Options,
   positionalArgs: PositionalArguments
@@ -103,6 +352,8 @@ export function validateParamOptionsAndPositionalArguments(
     validateParamOption(optionName, option);
   });
   checkForDuplicateOptionNames(options);
+  checkForDuplicateOptionFlags(options);
+  checkOptionRelations(options);
 
   positionalArgs.forEach(validateParamPositionalArg);
   checkForDuplicatePositionalOptionNames(positionalArgs);
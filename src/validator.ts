@@ -1,28 +1,120 @@
-import { ParseError } from "./error";
+import {
+  combineParseErrors,
+  OptionError,
+  ParseError,
+  PositionalArgumentError,
+} from "./error";
 import type { Candidate, Parsed, PositionalCandidate } from "./internal_parser";
 import { isNumericValue } from "./internal_parser";
 import { debugLog } from "./logger";
+import { DEFAULT_MESSAGES } from "./messages";
 import type {
   FormatValidOption,
   FormatValidPositionalArgument,
   InternalOption,
   InternalPositionalArgument,
+  OptionGroupRule,
+  TupleValue,
 } from "./type";
 import * as util from "./util";
+import { isValidValue } from "./value_type";
 
 interface ValidValue {
-  value: string | number | string[] | number[] | boolean;
+  value:
+    | string
+    | number
+    | string[]
+    | number[]
+    | boolean
+    | TupleValue
+    | TupleValue[];
 }
 
 interface ValidPositionalValue {
   value: string | number | string[] | number[];
 }
 
+// Values stay strings here, and are converted after validation
+function validateValueTypeValue(
+  option: InternalOption | InternalPositionalArgument,
+  value: string | string[] | undefined
+): { value: string | string[] } | undefined {
+  if (value === undefined || Array.isArray(value) !== option.isArray) {
+    return undefined;
+  }
+  const items = Array.isArray(value) ? value : [value];
+  if (
+    items.length === 0 ||
+    items.some((item) => !isValidValue(option.valueType ?? "", item))
+  ) {
+    return undefined;
+  }
+  return { value };
+}
+
+// ex. ["FOO=1", "BAR=2"]. Pairs are converted to a record after validation
+function validateRecordValue(
+  option: InternalOption,
+  value: string | string[] | undefined
+): { value: string[] } | undefined {
+  if (
+    value === undefined ||
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    value.some((item) => !isValidPair(option, item))
+  ) {
+    return undefined;
+  }
+  return { value };
+}
+
+// ex. ["3", "4"] => [3, 4] for [number, number]
+function validateTupleValue(
+  tupleTypes: Array<"string" | "number">,
+  value: string | string[] | undefined
+): { value: TupleValue } | undefined {
+  if (
+    value === undefined ||
+    !Array.isArray(value) ||
+    value.length !== tupleTypes.length ||
+    value.some((item, i) => tupleTypes[i] === "number" && !isNumericValue(item))
+  ) {
+    return undefined;
+  }
+  return {
+    value: value.map((item, i) =>
+      tupleTypes[i] === "number" ? parseFloat(item) : item
+    ),
+  };
+}
+
+// "__proto__" is rejected because it would not be kept as a key of the record
+function isValidPair(option: InternalOption, pair: string): boolean {
+  const keyValue = util.splitKeyValue(pair);
+  if (keyValue === undefined || keyValue[0] === "__proto__") {
+    return false;
+  }
+  return option.type !== "number" || isNumericValue(keyValue[1]);
+}
+
 export function validateCandidateValue(
   option: InternalOption,
   value: string | string[] | undefined,
   isNegative: boolean
 ): ValidValue | undefined {
+  if (option.valueType !== undefined) {
+    return validateValueTypeValue(option, value);
+  }
+  if (option.isRecord === true) {
+    return validateRecordValue(option, value);
+  }
+  if (option.tupleTypes !== undefined) {
+    return validateTupleValue(option.tupleTypes, value);
+  }
+  if (option.count === true) {
+    // each occurrence counts one, and they are summed up later
+    return value === undefined && !isNegative ? { value: 1 } : undefined;
+  }
   if (option.isArray) {
     if (value === undefined || !Array.isArray(value)) {
       return undefined;
@@ -77,6 +169,9 @@ export function validatePositionalCandidateValue(
   option: InternalPositionalArgument,
   value: string | string[]
 ): ValidPositionalValue | undefined {
+  if (option.valueType !== undefined) {
+    return validateValueTypeValue(option, value);
+  }
   if (option.isArray) {
     if (!Array.isArray(value)) {
       return undefined;
@@ -105,123 +200,393 @@ export function validatePositionalCandidateValue(
   }
 }
 
-export function validateMultipleCommands(
-  parsed: Parsed,
-  options: InternalOption[],
-  positionalArgs: InternalPositionalArgument[],
-  commandName: string
-): {
-  options: FormatValidOption[];
-  positionalArgs: FormatValidPositionalArgument[];
-} {
-  try {
-    return validate(parsed, options, positionalArgs);
-  } catch (e) {
-    if (e instanceof ParseError) {
-      e.commandName = commandName;
+const ENV_TRUE_VALUES = ["true", "1", "yes", "on"];
+const ENV_FALSE_VALUES = ["false", "0", "no", "off", ""];
+
+// Array value in environment variable is comma separated, or split by the separator of the option. ex. OPT1=a,b,c
+// Tuple value is also comma separated, and it is the only item of the array of tuples. ex. POINT=3,4
+export function validateEnvValue(
+  option: InternalOption,
+  envName: string,
+  envValue: string
+): ValidValue {
+  if (option.tupleTypes !== undefined) {
+    const validated = validateTupleValue(
+      option.tupleTypes,
+      envValue.split(",")
+    );
+    if (validated !== undefined) {
+      return option.isArray ? { value: [validated.value] } : validated;
+    }
+  } else if (option.count === true) {
+    // ex. VERBOSE=2
+    if (isNumericValue(envValue)) {
+      return { value: parseFloat(envValue) };
+    }
+  } else if (option.type === "boolean") {
+    const normalized = envValue.trim().toLowerCase();
+    if (ENV_TRUE_VALUES.includes(normalized)) {
+      return { value: true };
     }
-    throw e;
+    if (ENV_FALSE_VALUES.includes(normalized)) {
+      return { value: false };
+    }
+  } else {
+    const validated = validateCandidateValue(
+      option,
+      option.isArray
+        ? util.splitBySeparator(envValue, option.separator ?? ",")
+        : envValue,
+      false
+    );
+    if (validated !== undefined) {
+      return validated;
+    }
+  }
+  throw new OptionError(
+    "INVALID_ENV_VALUE",
+    DEFAULT_MESSAGES.invalidEnvValue(envName, expectedTypeOf(option)),
+    {
+      optionName: option.name,
+      arg: envValue,
+      expectedType: expectedTypeOf(option),
+      envName,
+    }
+  );
+}
+
+// ex. "abc" of --num 1 abc
+function findInvalidToken(
+  option: InternalOption | InternalPositionalArgument,
+  value: string | string[] | undefined
+): string | undefined {
+  const valueType = option.valueType;
+  const isRecord = "isRecord" in option && option.isRecord === true;
+  const tupleTypes = "tupleTypes" in option ? option.tupleTypes : undefined;
+  return Array.isArray(value)
+    ? value.find((item, i) =>
+        valueType !== undefined
+          ? !isValidValue(valueType, item)
+          : isRecord
+          ? !isValidPair(option, item)
+          : tupleTypes !== undefined
+          ? tupleTypes[i] === "number" && !isNumericValue(item)
+          : !isNumericValue(item)
+      )
+    : value;
+}
+
+function expectedTypeOf(
+  option: InternalOption | InternalPositionalArgument
+): string {
+  if ("isRecord" in option && option.isRecord === true) {
+    return option.type === "number" ? "key=number" : "key=value";
   }
+  if ("tupleTypes" in option && option.tupleTypes !== undefined) {
+    return `[${option.tupleTypes.join(", ")}]`;
+  }
+  return option.valueType ?? option.type;
 }
 
+// Problems are collected in errors instead of being thrown
 function validateOptions(
   candidates: Candidate[],
-  options: InternalOption[]
+  options: InternalOption[],
+  env: NodeJS.ProcessEnv,
+  configValues: Record<string, unknown>,
+  errors: ParseError[]
 ): FormatValidOption[] {
   const optionMap = new Map(options.map((option) => [option.name, option]));
-  const validValues: Array<
-    [string, string | number | boolean | string[] | number[] | undefined]
-  > = candidates.map((candidate) => {
-    const option = optionMap.get(candidate.name);
-    if (option === undefined) {
-      throw new ParseError(`Unknown option: ${candidate.name}`);
-    }
-    const validated = validateCandidateValue(
-      option,
-      candidate.value,
-      candidate.isNegative
+  const validValues: Array<[string, ValidValue["value"] | undefined]> =
+    candidates.flatMap(
+      (candidate): Array<[string, ValidValue["value"] | undefined]> => {
+        const option = optionMap.get(candidate.name);
+        if (option === undefined) {
+          errors.push(
+            new OptionError(
+              "UNKNOWN_OPTION",
+              DEFAULT_MESSAGES.unknownOption(candidate.name),
+              { optionName: candidate.name }
+            )
+          );
+          return [];
+        }
+        const validated = validateCandidateValue(
+          option,
+          candidate.value,
+          candidate.isNegative
+        );
+        if (validated === undefined) {
+          errors.push(
+            new OptionError(
+              "INVALID_OPTION_VALUE",
+              DEFAULT_MESSAGES.invalidOptionValue(
+                candidate.name,
+                expectedTypeOf(option)
+              ),
+              {
+                optionName: candidate.name,
+                arg: findInvalidToken(option, candidate.value),
+                expectedType: expectedTypeOf(option),
+              }
+            )
+          );
+          return [];
+        }
+        return [[candidate.name, validated.value]];
+      }
     );
-    if (validated === undefined) {
-      throw new ParseError(
-        `Invalid option value. ${option.type} is expected: ${candidate.name}`
-      );
-    }
-    return [candidate.name, validated.value];
-  });
 
   debugLog("validateOptions", { validValues });
 
-  const arrayTypeMerged: Array<
-    [string, string | number | boolean | string[] | number[] | undefined]
-  > = options.flatMap((opt) => {
-    const nameValues = validValues.filter(([name]) => name === opt.name);
-    if (!opt.isArray) {
-      return nameValues;
-    }
-    const values = nameValues.map(([, value]) => value);
-    if (values.length === 0) {
-      return [];
-    }
-    return [[opt.name, values.flat()]] as Array<[string, string[] | number[]]>;
-  });
+  const arrayTypeMerged: Array<[string, ValidValue["value"] | undefined]> =
+    options.flatMap((opt) => {
+      const nameValues = validValues.filter(([name]) => name === opt.name);
+      if (opt.count === true) {
+        return nameValues.length !== 0 ? [[opt.name, nameValues.length]] : [];
+      }
+      if (!opt.isArray) {
+        return nameValues;
+      }
+      const values = nameValues.map(([, value]) => value);
+      if (values.length === 0) {
+        return [];
+      }
+      // repeated tuples are kept as an array of tuples
+      return [
+        [opt.name, opt.tupleTypes !== undefined ? values : values.flat()],
+      ] as Array<[string, string[] | number[] | TupleValue[]]>;
+    });
 
   const duplicateOptionNames = util.findDuplicateValues(
     arrayTypeMerged.map(([name]) => name)
   );
-  if (duplicateOptionNames.length !== 0) {
-    throw new ParseError(
-      `Duplicated option: ${duplicateOptionNames.join(", ")}`
+  util.uniq(duplicateOptionNames).forEach((name) => {
+    errors.push(
+      new OptionError(
+        "DUPLICATED_OPTION",
+        DEFAULT_MESSAGES.duplicatedOption(name),
+        {
+          optionName: name,
+        }
+      )
     );
-  }
+  });
   const validValueSet = new Map(arrayTypeMerged);
 
-  return options.map((opt) => {
+  const resolved = options.map((opt): FormatValidOption => {
     if (!validValueSet.has(opt.name)) {
-      if (!opt.required) {
-        return { name: opt.name, value: undefined };
+      const envValue = opt.envName !== undefined ? env[opt.envName] : undefined;
+      if (opt.envName !== undefined && envValue !== undefined) {
+        try {
+          return {
+            name: opt.name,
+            value: validateEnvValue(opt, opt.envName, envValue).value,
+          };
+        } catch (e) {
+          if (!(e instanceof ParseError)) {
+            throw e;
+          }
+          errors.push(e);
+          return { name: opt.name, value: undefined };
+        }
       }
-      throw new ParseError(`Required option is missing: ${opt.name}`);
+      if (Object.prototype.hasOwnProperty.call(configValues, opt.name)) {
+        // value in config file is validated by zod
+        return {
+          name: opt.name,
+          value: configValues[opt.name] as FormatValidOption["value"],
+        };
+      }
+      return { name: opt.name, value: undefined };
     }
     return { name: opt.name, value: validValueSet.get(opt.name) };
   });
+
+  // implied values satisfy required options
+  const implied = applyImpliedValues(resolved, options);
+  options.forEach((opt, i) => {
+    // invalid values and problems of args are already reported
+    const isSpecified = candidates.some((c) => c.name === opt.name);
+    const isReported = errors.some(
+      (e) => e instanceof OptionError && e.optionName === opt.name
+    );
+    if (
+      opt.required &&
+      implied[i].value === undefined &&
+      !isSpecified &&
+      !isReported
+    ) {
+      errors.push(
+        new OptionError(
+          "MISSING_REQUIRED_OPTION",
+          DEFAULT_MESSAGES.missingRequiredOption(opt.name),
+          { optionName: opt.name }
+        )
+      );
+    }
+  });
+  return implied;
+}
+
+function conflictingOptionsError(names: string[]): OptionError {
+  return new OptionError(
+    "CONFLICTING_OPTIONS",
+    DEFAULT_MESSAGES.conflictingOptions(names),
+    { optionName: names[0], relatedOptionNames: names.slice(1) }
+  );
+}
+
+function validateOptionGroup(
+  { kind, names }: OptionGroupRule,
+  specifiedNames: string[],
+  errors: ParseError[]
+): void {
+  const specifiedMembers = names.filter((name) =>
+    specifiedNames.includes(name)
+  );
+  if (specifiedMembers.length === 0) {
+    errors.push(
+      new OptionError(
+        "MISSING_OPTION_GROUP",
+        DEFAULT_MESSAGES.missingOptionGroup(names),
+        { optionName: names[0], relatedOptionNames: names.slice(1) }
+      )
+    );
+  } else if (kind === "exactlyOneOf" && specifiedMembers.length > 1) {
+    errors.push(conflictingOptionsError(specifiedMembers));
+  }
+}
+
+// Options are specified when they have values from args, environment variables or config files.
+// false is not counted. ex. --no-json, JSON=false
+function isSpecifiedValue(value: FormatValidOption["value"]): boolean {
+  return value !== undefined && value !== false;
+}
+
+function validateOptionRelations(
+  validOptions: FormatValidOption[],
+  options: InternalOption[],
+  errors: ParseError[]
+): void {
+  const specifiedNames = validOptions
+    .filter(({ value }) => isSpecifiedValue(value))
+    .map(({ name }) => name);
+  const specifiedOptions = options.filter((opt) =>
+    specifiedNames.includes(opt.name)
+  );
+  const reportedConflicts = new Set<string>();
+  specifiedOptions.forEach((opt) => {
+    const conflicted = (opt.conflicts ?? []).filter((name) =>
+      specifiedNames.includes(name)
+    );
+    if (conflicted.length !== 0) {
+      const names = [opt.name, ...conflicted];
+      // --a --b is reported once even if both of them declare the conflict
+      const key = names.slice().sort().join(",");
+      if (!reportedConflicts.has(key)) {
+        reportedConflicts.add(key);
+        errors.push(conflictingOptionsError(names));
+      }
+    }
+    const missing = (opt.requires ?? []).filter(
+      (name) => !specifiedNames.includes(name)
+    );
+    if (missing.length !== 0) {
+      errors.push(
+        new OptionError(
+          "MISSING_DEPENDENT_OPTION",
+          DEFAULT_MESSAGES.missingDependentOption(opt.name, missing),
+          { optionName: opt.name, relatedOptionNames: missing }
+        )
+      );
+    }
+  });
+  util
+    .uniq(options.flatMap((opt) => opt.optionGroups ?? []))
+    .forEach((rule) => validateOptionGroup(rule, specifiedNames, errors));
+}
+
+// Implied values are used only when the options are not specified
+function applyImpliedValues(
+  validOptions: FormatValidOption[],
+  options: InternalOption[]
+): FormatValidOption[] {
+  const implied = new Map(
+    options
+      .filter((opt) =>
+        validOptions.some(
+          ({ name, value }) => name === opt.name && isSpecifiedValue(value)
+        )
+      )
+      .flatMap((opt) => Object.entries(opt.implies ?? {}))
+  );
+  return validOptions.map(({ name, value }) =>
+    value === undefined && implied.has(name)
+      ? { name, value: implied.get(name) as FormatValidOption["value"] }
+      : { name, value }
+  );
 }
 
 function validatePositionalArguments(
   candidates: PositionalCandidate[],
-  positionalArgs: InternalPositionalArgument[]
+  positionalArgs: InternalPositionalArgument[],
+  errors: ParseError[]
 ): FormatValidPositionalArgument[] {
   const positionalArgMap = new Map(
     positionalArgs.map((option) => [option.name, option])
   );
   const validValues: Array<[string, string | number | string[] | number[]]> =
-    candidates.map((candidate) => {
-      const name = candidate.name;
-      const positionalOption = positionalArgMap.get(name);
-      if (positionalOption === undefined) {
-        throw new ParseError(`Unknown positional argument: ${name}`);
-      }
-      const validated = validatePositionalCandidateValue(
-        positionalOption,
-        candidate.value
-      );
-      if (validated === undefined) {
-        throw new ParseError(`Invalid positional argument value: ${name}`);
+    candidates.flatMap(
+      (candidate): Array<[string, string | number | string[] | number[]]> => {
+        const name = candidate.name;
+        const positionalOption = positionalArgMap.get(name);
+        if (positionalOption === undefined) {
+          errors.push(
+            new PositionalArgumentError(
+              "TOO_MANY_POSITIONALS",
+              DEFAULT_MESSAGES.tooManyPositionals,
+              { argumentName: name }
+            )
+          );
+          return [];
+        }
+        const validated = validatePositionalCandidateValue(
+          positionalOption,
+          candidate.value
+        );
+        if (validated === undefined) {
+          errors.push(
+            new PositionalArgumentError(
+              "INVALID_POSITIONAL_VALUE",
+              DEFAULT_MESSAGES.invalidPositionalValue(name),
+              {
+                argumentName: name,
+                arg: findInvalidToken(positionalOption, candidate.value),
+                expectedType: expectedTypeOf(positionalOption),
+              }
+            )
+          );
+          return [];
+        }
+        return [[candidate.name, validated.value]];
       }
-      return [candidate.name, validated.value];
-    });
+    );
 
   debugLog("validatePositionalArguments", { validValues });
 
   const duplicatedPositionalArgNames = util.findDuplicateValues(
     validValues.map(([name]) => name)
   );
-  if (duplicatedPositionalArgNames.length !== 0) {
-    throw new ParseError(
-      `Duplicated positional argument: ${duplicatedPositionalArgNames.join(
-        ", "
-      )}`
+  util.uniq(duplicatedPositionalArgNames).forEach((name) => {
+    errors.push(
+      new PositionalArgumentError(
+        "DUPLICATED_POSITIONAL",
+        DEFAULT_MESSAGES.duplicatedPositional(name),
+        { argumentName: name }
+      )
     );
-  }
+  });
 
   const validValueSet = new Map(validValues);
 
@@ -233,7 +598,16 @@ function validatePositionalArguments(
     }
 
     if (!validValueSet.has(opt.name)) {
-      throw new ParseError(`Required argument is missing: ${opt.name}`);
+      if (!candidates.some((c) => c.name === opt.name)) {
+        errors.push(
+          new PositionalArgumentError(
+            "MISSING_REQUIRED_POSITIONAL",
+            DEFAULT_MESSAGES.missingRequiredPositional(opt.name),
+            { argumentName: opt.name }
+          )
+        );
+      }
+      return { name: opt.name, value: undefined };
     }
     return {
       name: opt.name,
@@ -245,16 +619,56 @@ function validatePositionalArguments(
 export function validate(
   parsed: Parsed,
   options: InternalOption[],
-  positionalArgs: InternalPositionalArgument[]
+  positionalArgs: InternalPositionalArgument[],
+  env: NodeJS.ProcessEnv = process.env,
+  configValues: Record<string, unknown> = {}
 ): {
   options: FormatValidOption[];
   positionalArgs: FormatValidPositionalArgument[];
 } {
+  const validated = validateCollectingErrors(
+    parsed,
+    options,
+    positionalArgs,
+    env,
+    configValues
+  );
+  if (validated.errors !== undefined) {
+    throw combineParseErrors(validated.errors);
+  }
+  return validated;
+}
+
+// Same as validate(), but problems are returned in errors with the values that have no problems
+export function validateCollectingErrors(
+  parsed: Parsed,
+  options: InternalOption[],
+  positionalArgs: InternalPositionalArgument[],
+  env: NodeJS.ProcessEnv = process.env,
+  configValues: Record<string, unknown> = {}
+): {
+  options: FormatValidOption[];
+  positionalArgs: FormatValidPositionalArgument[];
+  errors?: ParseError[];
+} {
+  // Problems of args and values are reported at once
+  const errors = (parsed.errors ?? []).slice();
+  const validOptions = validateOptions(
+    parsed.candidates,
+    options,
+    env,
+    configValues,
+    errors
+  );
+  validateOptionRelations(validOptions, options, errors);
+  const validPositionalArgs = validatePositionalArguments(
+    parsed.positionalCandidates,
+    positionalArgs,
+    errors
+  );
   return {
-    options: validateOptions(parsed.candidates, options),
-    positionalArgs: validatePositionalArguments(
-      parsed.positionalCandidates,
-      positionalArgs
-    ),
+    options: validOptions,
+    positionalArgs: validPositionalArgs,
+    ...(errors.length !== 0 ? { errors } : {}),
   };
 }
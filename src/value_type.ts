@@ -0,0 +1,92 @@
+import type { ZodTypeAny } from "zod";
+
+import { getTypeName, hasStringFormat } from "./compat";
+import type { ValueType } from "./type";
+
+// ex. "2024-01-31", "2024-01-31T12:00:00Z", "2024-01-31T12:00:00.000+09:00"
+const ISO_DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const dateValueType: ValueType<Date> = {
+  name: "date",
+  test: (schema) => getTypeName(schema) === "ZodDate",
+  parse: (value) => {
+    if (!ISO_DATE_PATTERN.test(value)) {
+      return undefined;
+    }
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  },
+  format: (value) => value.toISOString(),
+};
+
+const bigintValueType: ValueType<bigint> = {
+  name: "bigint",
+  test: (schema) => getTypeName(schema) === "ZodBigInt",
+  parse: (value) => (/^-?\d+$/.test(value) ? BigInt(value) : undefined),
+};
+
+// Value stays string. Its format is validated by zod.
+const urlValueType: ValueType<string> = {
+  name: "url",
+  test: (schema) =>
+    getTypeName(schema) === "ZodString" && hasStringFormat(schema, "url"),
+  parse: (value) => value,
+};
+
+const BUILT_IN_VALUE_TYPES: ValueType[] = [
+  dateValueType as ValueType,
+  bigintValueType as ValueType,
+  urlValueType as ValueType,
+];
+
+// Registered later takes precedence. The first one is used when names are the same
+let valueTypes: ValueType[] = BUILT_IN_VALUE_TYPES;
+
+// Returns a function to remove the registration. The value type of the same name registered before is used again
+export function registerValueType<T>(valueType: ValueType<T>): () => void {
+  const registered = valueType as ValueType;
+  valueTypes = [registered].concat(valueTypes);
+  return () => {
+    valueTypes = valueTypes.filter((v) => v !== registered);
+  };
+}
+
+// Removes all registrations and keeps the built-in value types
+export function resetValueTypes(): void {
+  valueTypes = BUILT_IN_VALUE_TYPES;
+}
+
+export function findValueType(schema: ZodTypeAny): ValueType | undefined {
+  return valueTypes.find((valueType) => valueType.test(schema));
+}
+
+export function findValueTypeByName(name: string): ValueType | undefined {
+  return valueTypes.find((valueType) => valueType.name === name);
+}
+
+export function getPlaceholder(valueTypeName: string): string {
+  return findValueTypeByName(valueTypeName)?.placeholder ?? valueTypeName;
+}
+
+export function isValidValue(valueTypeName: string, value: string): boolean {
+  return findValueTypeByName(valueTypeName)?.parse(value) !== undefined;
+}
+
+// Strings are converted, and the others like values in config files are passed to zod as is
+export function convertValue(valueTypeName: string, value: unknown): unknown {
+  const valueType = findValueTypeByName(valueTypeName);
+  if (valueType === undefined) {
+    return value;
+  }
+  const convert = (item: unknown): unknown =>
+    typeof item === "string" ? valueType.parse(item) ?? item : item;
+  return Array.isArray(value) ? value.map(convert) : convert(value);
+}
+
+export function formatValue(valueTypeName: string, value: unknown): string {
+  const valueType = findValueTypeByName(valueTypeName);
+  return valueType?.format !== undefined
+    ? valueType.format(value)
+    : String(value);
+}
@@ -15,9 +15,12 @@ import type {
   InternalPositionalArgument,
   Option,
   PositionalArgument,
+  TupleValue,
+  ValueType,
 } from "./type";
 import { BASE_TYPES } from "./type";
-import { uniq } from "./util";
+import { toEnvName, uniq } from "./util";
+import { findValueType, formatValue } from "./value_type";
 
 const TYPE_NAME_MAP: Record<string, string> = {
   ZodString: "string",
@@ -35,6 +38,12 @@ const TYPE_NAME_MAP: Record<string, string> = {
   ZodBranded: "branded",
   ZodPromise: "promise",
   ZodReadonly: "readonly",
+  ZodDate: "date",
+  ZodBigInt: "bigint",
+  ZodLiteral: "literal",
+  ZodNativeEnum: "nativeEnum",
+  ZodRecord: "record",
+  ZodTuple: "tuple",
 };
 
 function normalizeTypeName(typeName: string): string {
@@ -70,10 +79,10 @@ function getWrappedDef(def: SchemaDef): SchemaDef | undefined {
   return getDef(wrapped);
 }
 
-export function getDefaultValue(
+function getRawDefaultValue(
   def: SchemaDef,
-  allowOptionalDefault: boolean = false
-): string[] | number[] | BaseTypeT | undefined {
+  allowOptionalDefault: boolean
+): unknown {
   const resolveDefault = (
     currentDef: unknown,
     optionalSeen: boolean
@@ -100,8 +109,14 @@ export function getDefaultValue(
     }
     return resolveDefault(next, nextOptionalSeen);
   };
+  return resolveDefault(def, false);
+}
 
-  const defaultValue = resolveDefault(def, false);
+export function getDefaultValue(
+  def: SchemaDef,
+  allowOptionalDefault: boolean = false
+): string[] | number[] | BaseTypeT | undefined {
+  const defaultValue = getRawDefaultValue(def, allowOptionalDefault);
   const isPrimitive = [...BASE_TYPES, "undefined"].includes(
     typeof defaultValue
   );
@@ -145,7 +160,7 @@ function isRequired(def: SchemaDef): boolean {
   if (isZodOptional(def)) {
     return false;
   }
-  if (getDefaultValue(def) !== undefined) {
+  if (getRawDefaultValue(def, false) !== undefined) {
     return false;
   }
   if (getTypeName(def) === "union") {
@@ -213,11 +228,27 @@ export function toInternalType(
       }
       return "boolean";
     case "enum":
-      return "string";
+    case "nativeEnum":
+    case "literal":
+      return toInternalTypeForLiterals(solvedDef);
     case "union":
       return toInternalTypeForZodUnion(solvedDef);
     case "array":
       return toInternalTypeForZodArray(solvedDef);
+    case "record":
+      if (isPositional) {
+        throw new Error(
+          `Unsupported zod type (positional argument): ${typeName}`
+        );
+      }
+      return toInternalTypeForZodRecord(solvedDef);
+    case "tuple":
+      if (isPositional) {
+        throw new Error(
+          `Unsupported zod type (positional argument): ${typeName}`
+        );
+      }
+      return toInternalTypeForZodTuple(solvedDef);
     default:
       throw new Error(`Unsupported zod type: ${typeName}`);
   }
@@ -239,12 +270,16 @@ export function toInternalTypeForZodUnion(def: SchemaDef): BaseType {
   return types[0];
 }
 
-function toInternalTypeForZodArray(def: SchemaDef): BaseType {
-  const elementSchema = isZodSchema(def.element)
+function getArrayElementSchema(def: SchemaDef): ZodTypeAny | undefined {
+  return isZodSchema(def.element)
     ? def.element
     : isZodSchema(def.type)
     ? def.type
     : undefined;
+}
+
+function toInternalTypeForZodArray(def: SchemaDef): BaseType {
+  const elementSchema = getArrayElementSchema(def);
   if (elementSchema == null) {
     throw new Error("Array element type not found");
   }
@@ -255,40 +290,231 @@ function toInternalTypeForZodArray(def: SchemaDef): BaseType {
       return "string";
     case "number":
       return "number";
+    case "tuple":
+      return toInternalTypeForZodTuple(elementDef);
     default:
       throw new Error(`Unsupported zod type: Array of ${typeName}`);
   }
 }
 
-function getEnumValues(def: SchemaDef): string[] | undefined {
-  const solvedDef = resolveInnerType(def);
-  if (getTypeName(solvedDef) !== "enum") {
+// ex. z.tuple([z.number(), z.string()]) => ["number", "string"]
+function getTupleTypes(def: SchemaDef): Array<"string" | "number"> {
+  if (isZodSchema(def.rest)) {
+    throw new Error("Unsupported zod type: tuple with rest");
+  }
+  const items = Array.isArray(def.items) ? def.items : [];
+  return items.map((item) => {
+    const typeName = isZodSchema(item) ? getTypeName(getDef(item)) : "";
+    if (typeName !== "string" && typeName !== "number") {
+      throw new Error(`Unsupported zod type: Tuple of ${typeName}`);
+    }
+    return typeName;
+  });
+}
+
+// type is "number" when all elements are numbers
+function toInternalTypeForZodTuple(def: SchemaDef): BaseType {
+  const types = uniq(getTupleTypes(def));
+  return types.length === 1 && types[0] === "number" ? "number" : "string";
+}
+
+// Element types of z.tuple() and z.array(z.tuple()). undefined for other types
+function findTupleTypes(
+  resolvedDef: SchemaDef
+): Array<"string" | "number"> | undefined {
+  if (getTypeName(resolvedDef) === "tuple") {
+    return getTupleTypes(resolvedDef);
+  }
+  const elementSchema =
+    getTypeName(resolvedDef) === "array"
+      ? getArrayElementSchema(resolvedDef)
+      : undefined;
+  if (elementSchema === undefined) {
     return undefined;
   }
-  if (
-    Array.isArray(solvedDef.values) &&
-    solvedDef.values.every((value) => typeof value === "string")
-  ) {
-    return solvedDef.values;
+  const elementDef = getDef(elementSchema);
+  return getTypeName(elementDef) === "tuple"
+    ? getTupleTypes(elementDef)
+    : undefined;
+}
+
+// Keys are strings, and values are strings or numbers
+function toInternalTypeForZodRecord(def: SchemaDef): BaseType {
+  const keyTypeName = isZodSchema(def.keyType)
+    ? getTypeName(getDef(def.keyType))
+    : "";
+  const valueTypeName = isZodSchema(def.valueType)
+    ? getTypeName(getDef(def.valueType))
+    : "";
+  if (keyTypeName !== "string") {
+    throw new Error(`Unsupported zod type: Record key of ${keyTypeName}`);
   }
-  if (isRecord(solvedDef.entries)) {
-    return Object.keys(solvedDef.entries);
+  switch (valueTypeName) {
+    case "string":
+      return "string";
+    case "number":
+      return "number";
+    default:
+      throw new Error(`Unsupported zod type: Record of ${valueTypeName}`);
+  }
+}
+
+// Default value in help. ex. { FOO: "1" } => ["FOO=1"]
+function getRecordDefaultValue(
+  def: SchemaDef,
+  allowOptionalDefault: boolean
+): string[] | undefined {
+  const defaultValue = getRawDefaultValue(def, allowOptionalDefault);
+  if (defaultValue === undefined) {
+    return undefined;
+  }
+  if (!isRecord(defaultValue) || Array.isArray(defaultValue)) {
+    throw new Error(
+      `Unsupported default value: ${JSON.stringify(defaultValue)}`
+    );
+  }
+  return Object.entries(defaultValue).map(
+    ([key, value]) => `${key}=${String(value)}`
+  );
+}
+
+// The schema, its wrapped schemas and array elements are tested in order
+function findSchemaValueType(schema: ZodTypeAny): ValueType | undefined {
+  let current: ZodTypeAny | undefined = schema;
+  while (current !== undefined) {
+    const valueType = findValueType(current);
+    if (valueType !== undefined) {
+      return valueType;
+    }
+    const def = getDef(current);
+    current =
+      getTypeName(def) === "array"
+        ? getArrayElementSchema(def)
+        : getWrappedSchema(def);
   }
   return undefined;
 }
 
-export function optionToInternal(option: Option, name: string): InternalOption {
+// Default value in help. ex. Date => "2024-01-01T00:00:00.000Z"
+function getValueTypeDefaultValue(
+  def: SchemaDef,
+  allowOptionalDefault: boolean,
+  valueType: ValueType
+): string | string[] | bigint | bigint[] | undefined {
+  const defaultValue = getRawDefaultValue(def, allowOptionalDefault);
+  if (defaultValue === undefined) {
+    return undefined;
+  }
+  // bigint is kept to be shown like number unless the value type formats it
+  const format = (value: unknown): string | bigint =>
+    typeof value === "bigint" && valueType.format === undefined
+      ? value
+      : formatValue(valueType.name, value);
+  return Array.isArray(defaultValue)
+    ? (defaultValue.map(format) as string[] | bigint[])
+    : format(defaultValue);
+}
+
+// ex. enum E { A = 0, B = 5 } => [0, 5]. Reverse mappings of numeric enums are excluded
+function getNativeEnumValues(entries: Record<string, unknown>): unknown[] {
+  return Object.keys(entries)
+    .filter((key) => typeof entries[String(entries[key])] !== "number")
+    .map((key) => entries[key]);
+}
+
+// Values of z.enum(), z.nativeEnum(), z.literal() and unions of them. undefined for other types
+function getLiteralValues(def: SchemaDef): unknown[] | undefined {
+  const solvedDef = resolveInnerType(def);
+  const values: unknown = solvedDef.values;
+  switch (getTypeName(solvedDef)) {
+    case "enum":
+    case "nativeEnum":
+      // v4 z.enum() and z.nativeEnum() have entries
+      if (Array.isArray(values)) {
+        return values;
+      }
+      if (isRecord(values)) {
+        return getNativeEnumValues(values);
+      }
+      return isRecord(solvedDef.entries)
+        ? getNativeEnumValues(solvedDef.entries)
+        : undefined;
+    case "literal":
+      // v4 z.literal() has values
+      return Array.isArray(values) ? values : [solvedDef.value];
+    case "union": {
+      const options = Array.isArray(solvedDef.options) ? solvedDef.options : [];
+      const optionValues = options.map((option) =>
+        isZodSchema(option) ? getLiteralValues(getDef(option)) : undefined
+      );
+      return optionValues.every((v): v is unknown[] => v !== undefined)
+        ? optionValues.flat()
+        : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function toInternalTypeForLiterals(def: SchemaDef): BaseType {
+  const types = uniq((getLiteralValues(def) ?? []).map((v) => typeof v));
+  if (types.length !== 1) {
+    throw new Error("Literal types are not same");
+  }
+  switch (types[0]) {
+    case "string":
+      return "string";
+    case "number":
+      return "number";
+    default:
+      throw new Error(`Unsupported zod type: literal of ${types[0]}`);
+  }
+}
+
+function getEnumValues(def: SchemaDef): string[] | undefined {
+  return getLiteralValues(def)?.map(String);
+}
+
+export function optionToInternal(
+  option: Option,
+  name: string,
+  envPrefix?: string
+): InternalOption {
   const zodType = option.type;
   const def = getDef(zodType);
-  const defaultValue = getDefaultValue(def, isZodV4(zodType)) as
-    | string
-    | number
-    | string[]
-    | number[]
-    | undefined;
-  const internalType = toInternalType(def);
+  const valueType = findSchemaValueType(zodType);
   const resolvedDef = resolveInnerType(def);
   const resolvedTypeName = getTypeName(resolvedDef);
+  const isRecordType = resolvedTypeName === "record";
+  const tupleTypes =
+    valueType !== undefined ? undefined : findTupleTypes(resolvedDef);
+  const defaultValue =
+    valueType !== undefined
+      ? getValueTypeDefaultValue(def, isZodV4(zodType), valueType)
+      : isRecordType
+      ? getRecordDefaultValue(def, isZodV4(zodType))
+      : tupleTypes !== undefined
+      ? (getRawDefaultValue(def, isZodV4(zodType)) as
+          | TupleValue
+          | TupleValue[]
+          | undefined)
+      : (getDefaultValue(def, isZodV4(zodType)) as
+          | string
+          | number
+          | string[]
+          | number[]
+          | undefined);
+  const internalType = valueType !== undefined ? "string" : toInternalType(def);
+  if (option.count === true && resolvedTypeName !== "number") {
+    throw new Error(`Count option must be number type: ${name}`);
+  }
+  if (
+    option.separator !== undefined &&
+    ((resolvedTypeName !== "array" && !isRecordType) ||
+      tupleTypes !== undefined)
+  ) {
+    throw new Error(`Separator is supported only for array options: ${name}`);
+  }
   const description = option.description ?? getDescription(zodType);
   const enumValues = getEnumValues(def);
 
@@ -296,12 +522,28 @@ export function optionToInternal(option: Option, name: string): InternalOption {
     type: internalType,
     name,
     alias: option.alias,
+    aliases: option.aliases,
     argumentName: option.argumentName,
     description,
     required: isRequired(def),
-    isArray: resolvedTypeName === "array",
+    isArray: resolvedTypeName === "array" || isRecordType,
     defaultValue,
     enumValues,
+    envName:
+      option.env ??
+      (envPrefix !== undefined ? toEnvName(envPrefix, name) : undefined),
+    hidden: option.hidden,
+    deprecated: option.deprecated,
+    renamedFrom: option.renamedFrom,
+    group: option.group,
+    conflicts: option.conflicts,
+    requires: option.requires,
+    implies: option.implies,
+    ...(valueType !== undefined ? { valueType: valueType.name } : {}),
+    ...(isRecordType ? { isRecord: true } : {}),
+    ...(tupleTypes !== undefined ? { tupleTypes } : {}),
+    ...(option.count === true ? { count: true } : {}),
+    ...(option.separator !== undefined ? { separator: option.separator } : {}),
   };
 }
 
@@ -310,13 +552,20 @@ export function positionalArgumentToInternal(
 ): InternalPositionalArgument {
   const zodType = option.type;
   const def = getDef(zodType);
-  const defaultValue = getDefaultValue(def, isZodV4(zodType)) as
-    | string
-    | number
-    | string[]
-    | number[]
-    | undefined;
-  const internalType = toInternalType(def, true) as "string" | "number";
+  const valueType = findSchemaValueType(zodType);
+  const defaultValue =
+    valueType !== undefined
+      ? getValueTypeDefaultValue(def, isZodV4(zodType), valueType)
+      : (getDefaultValue(def, isZodV4(zodType)) as
+          | string
+          | number
+          | string[]
+          | number[]
+          | undefined);
+  const internalType =
+    valueType !== undefined
+      ? "string"
+      : (toInternalType(def, true) as "string" | "number");
   const resolvedDef = resolveInnerType(def);
   const resolvedTypeName = getTypeName(resolvedDef);
   const description = option.description ?? getDescription(zodType);
@@ -330,5 +579,6 @@ export function positionalArgumentToInternal(
     isArray: resolvedTypeName === "array",
     defaultValue,
     enumValues,
+    ...(valueType !== undefined ? { valueType: valueType.name } : {}),
   };
 }
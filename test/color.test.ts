@@ -0,0 +1,84 @@
+import {
+  ANSI_THEME,
+  resolveTheme,
+  shouldUseColor,
+  shouldUseColorForOutput,
+} from "../src/color";
+import { generateOptionsText } from "../src/help";
+import type { InternalOption } from "../src/type";
+import { createInternalOption } from "./test_util";
+
+describe("shouldUseColor()", () => {
+  test("TTY", () => {
+    expect(shouldUseColor({ isTTY: true }, {})).toBe(true);
+    expect(shouldUseColor({ isTTY: false }, {})).toBe(false);
+    expect(shouldUseColor({}, {})).toBe(false);
+  });
+
+  test("NO_COLOR", () => {
+    expect(shouldUseColor({ isTTY: true }, { NO_COLOR: "1" })).toBe(false);
+    expect(shouldUseColor({ isTTY: true }, { NO_COLOR: "" })).toBe(true);
+    expect(
+      shouldUseColor({ isTTY: true }, { NO_COLOR: "1", FORCE_COLOR: "1" })
+    ).toBe(false);
+  });
+
+  test("FORCE_COLOR", () => {
+    expect(shouldUseColor({ isTTY: false }, { FORCE_COLOR: "1" })).toBe(true);
+    expect(shouldUseColor({ isTTY: false }, { FORCE_COLOR: "" })).toBe(true);
+    expect(shouldUseColor({ isTTY: true }, { FORCE_COLOR: "0" })).toBe(false);
+    expect(shouldUseColor({ isTTY: true }, { FORCE_COLOR: "false" })).toBe(
+      false
+    );
+  });
+});
+
+describe("shouldUseColorForOutput()", () => {
+  test("custom writers are colored only with FORCE_COLOR", () => {
+    const output = { stdout: () => {} };
+    expect(shouldUseColorForOutput(output, "stdout", {})).toBe(false);
+    expect(
+      shouldUseColorForOutput(output, "stdout", { FORCE_COLOR: "1" })
+    ).toBe(true);
+  });
+});
+
+describe("resolveTheme()", () => {
+  test("no theme without color", () => {
+    expect(resolveTheme({ flag: (text) => `*${text}*` }, false)).toBe(
+      undefined
+    );
+  });
+
+  test("custom styles override the default theme", () => {
+    const theme = resolveTheme({ flag: (text) => `*${text}*` }, true);
+    expect(theme?.flag("--opt1")).toBe("*--opt1*");
+    expect(theme?.heading("Options:")).toBe(ANSI_THEME.heading("Options:"));
+  });
+});
+
+describe("help with theme", () => {
+  test("styles headings, flags, placeholders and required markers", () => {
+    const options: InternalOption[] = [
+      createInternalOption({ name: "opt1", alias: "o", description: "desc" }),
+      createInternalOption({
+        name: "opt2",
+        alias: "p",
+        type: "boolean",
+        required: false,
+        description: "long",
+      }),
+    ];
+    const theme = {
+      heading: (text: string) => `\u001b[1m${text}\u001b[22m`,
+      flag: (text: string) => `\u001b[36m${text}\u001b[39m`,
+      placeholder: (text: string) => `\u001b[32m${text}\u001b[39m`,
+      required: (text: string) => `\u001b[33m${text}\u001b[39m`,
+      error: (text: string) => text,
+    };
+    expect(generateOptionsText(options, 2, false, [], { theme }))
+      .toBe(`\u001b[1mOptions:\u001b[22m
+  \u001b[36m-o\u001b[39m, \u001b[36m--opt1\u001b[39m \u001b[32m<string>\u001b[39m  desc  \u001b[33m[required]\u001b[39m
+  \u001b[36m-p\u001b[39m, \u001b[36m--opt2\u001b[39m           long            `);
+  });
+});
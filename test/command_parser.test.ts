@@ -1,10 +1,17 @@
+import { jest } from "@jest/globals";
 import { expectTypeOf } from "expect-type";
 import { z } from "zod";
 
 import { type Command, command } from "../src/command";
-import { ParseError } from "../src/error";
+import { type CommandParser } from "../src/command_parser";
+import { CommandError, ParseError } from "../src/error";
 import { parser } from "../src/parser";
-import { expectExit0, expectProcessExit, mockConsole } from "./test_util";
+import {
+  expectExit0,
+  expectProcessExit,
+  expectProcessExitAsync,
+  mockConsole,
+} from "./test_util";
 
 function createActionUnexpectedCommand(name: string): Command {
   return command(name)
@@ -359,6 +366,36 @@ Options:
     });
   });
 
+  test("suggests commands on unknown command", () => {
+    const result = parser()
+      .subcommand(createActionUnexpectedCommand("build"))
+      .subcommand(createActionUnexpectedCommand("bundle"))
+      .safeParse(["biuld"]);
+    expect(result).toMatchObject({
+      type: "error",
+      error: {
+        message: "Unknown command: biuld. Did you mean build?",
+        suggestions: ["build"],
+      },
+    });
+  });
+
+  test("error codes of commands", () => {
+    const commandParser = parser()
+      .subcommand(createActionUnexpectedCommand("build"))
+      .output({ stderr: () => {}, exit: () => {} });
+    expect(commandParser.safeParse([])).toMatchObject({
+      error: { code: "MISSING_COMMAND" },
+    });
+    const result = commandParser.safeParse(["unknown"]);
+    if (result.type !== "error") throw new Error("expected error");
+    expect(result.error).toBeInstanceOf(CommandError);
+    expect(result.error).toMatchObject({
+      code: "UNKNOWN_COMMAND",
+      arg: "unknown",
+    });
+  });
+
   test("error on parse()", () => {
     expectProcessExit("Invalid option: opt-missing", 1, () => {
       parser()
@@ -379,7 +416,9 @@ Options:
           expect(result).toEqual({
             commandName: "command1",
             type: "error",
-            error: new ParseError("Invalid option: opt-missing"),
+            error: new ParseError(
+              "Invalid option: opt-missing\nRequired option is missing: opt1"
+            ),
             help: expect.stringContaining(
               "Usage: scriptNameA command1 [options]"
             ),
@@ -460,6 +499,559 @@ Options:
   });
 });
 
+describe("parseAsync()", () => {
+  function createAsyncParser(
+    action: (parsed: { opt1: string }) => Promise<unknown>,
+    output: { stderr?: (text: string) => void; exit?: (code: number) => void }
+  ): CommandParser {
+    return parser()
+      .output(output)
+      .subcommand(
+        command("command1")
+          .options({
+            opt1: {
+              type: z.string(),
+            },
+          })
+          .action(action)
+      );
+  }
+
+  test("resolves with the return value of async action", async () => {
+    const exit = jest.fn();
+    const result = await createAsyncParser(
+      async (parsed) => {
+        expect(parsed).toEqual({ opt1: "str1" });
+        return await Promise.resolve("done");
+      },
+      { exit }
+    ).parseAsync(["command1", "--opt1", "str1"]);
+    expect(result).toBe("done");
+    expect(exit).not.toHaveBeenCalled();
+  });
+
+  test("exits with the number returned by action", async () => {
+    const exit = jest.fn();
+    const result = await createAsyncParser(async () => 3, {
+      exit,
+    }).parseAsync(["command1", "--opt1", "str1"]);
+    expect(result).toBe(3);
+    expect(exit.mock.calls).toEqual([[3]]);
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  test("resolves without exit when action returns 0", async () => {
+    const exit = jest.fn();
+    const result = await createAsyncParser(async () => 0, {
+      exit,
+    }).parseAsync(["command1", "--opt1", "str1"]);
+    expect(result).toBe(0);
+    expect(exit).not.toHaveBeenCalled();
+  });
+
+  test("parse() throws for async action", () => {
+    const action = jest.fn(async () => {
+      throw new Error("action failed");
+    });
+    expect(() => {
+      createAsyncParser(action, {}).parse(["command1", "--opt1", "str1"]);
+    }).toThrow("Async action is only supported by parseAsync()");
+    expect(action).toHaveBeenCalled();
+  });
+
+  test("writes the error, exits with 1 and rejects when action throws", async () => {
+    const stderr = jest.fn();
+    const exit = jest.fn();
+    await expect(
+      createAsyncParser(
+        async () => {
+          throw new Error("action failed");
+        },
+        { stderr, exit }
+      ).parseAsync(["command1", "--opt1", "str1"])
+    ).rejects.toThrow("action failed");
+    expect(stderr.mock.calls).toEqual([["action failed"]]);
+    expect(exit.mock.calls).toEqual([[1]]);
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  test("awaits async custom validation", async () => {
+    await expectProcessExitAsync("opt1 must be str1", 1, async () => {
+      return await parser()
+        .subcommand(
+          command("command1")
+            .options({
+              opt1: {
+                type: z.string(),
+              },
+            })
+            .validation(async (parsed) => {
+              return await Promise.resolve(
+                parsed.opt1 === "str1" || "opt1 must be str1"
+              );
+            })
+            .action((_parsed) => {
+              expect(1).toBe(0);
+            })
+        )
+        .parseAsync(["command1", "--opt1", "invalid"]);
+    });
+  });
+});
+
+describe("safeParse()", () => {
+  test("returns match with commandName without calling action", () => {
+    const result = parser()
+      .name("scriptA")
+      .subcommand(createActionUnexpectedCommand("command1"))
+      .safeParse(["command1", "--opt1", "str1"]);
+    expect(result).toEqual({
+      type: "match",
+      parsed: { opt1: "str1" },
+      commandName: "command1",
+      help: expect.stringContaining("Usage: scriptA command1 [options]"),
+    });
+  });
+
+  test("returns error with commandName", () => {
+    const result = parser()
+      .name("scriptA")
+      .subcommand(
+        command("command1")
+          .options({
+            opt1: {
+              type: z.string(),
+            },
+          })
+          .validation(() => "invalid opt1")
+          .action((_parsed) => {
+            expect(1).toBe(0);
+          })
+      )
+      .safeParse(["command1", "--opt1", "str1"]);
+    expect(result).toEqual({
+      type: "error",
+      error: new ParseError("invalid opt1"),
+      commandName: "command1",
+      help: expect.stringContaining("Usage: scriptA command1 [options]"),
+      exitCode: 1,
+    });
+  });
+
+  test("returns help", () => {
+    const result = parser()
+      .name("scriptA")
+      .subcommand(createActionUnexpectedCommand("command1"))
+      .safeParse(["--help", "command1"]);
+    expect(result).toEqual({
+      type: "help",
+      commandName: "command1",
+      help: expect.stringContaining("Usage: scriptA command1 [options]"),
+      exitCode: 0,
+    });
+  });
+});
+
+describe("deprecated", () => {
+  const createParser = (stderr: (text: string) => void): CommandParser =>
+    parser()
+      .name("scriptA")
+      .output({ stderr })
+      .subcommand(
+        command("remote")
+          .renamedFrom("remotes")
+          .subcommand(
+            command("add")
+              .deprecated("use 'remote create'")
+              .options({ url: { type: z.string(), renamedFrom: "uri" } })
+              .action((_parsed) => {})
+          )
+      );
+
+  test("renamed and deprecated names are parsed with warnings", () => {
+    const stderr = jest.fn();
+    const result = createParser(stderr).safeParse([
+      "remotes",
+      "add",
+      "--uri",
+      "http://example.com",
+    ]);
+    expect(result).toEqual({
+      type: "match",
+      parsed: { url: "http://example.com" },
+      commandName: "remote add",
+      help: expect.stringContaining("Usage: scriptA remote add"),
+      warnings: [
+        "Command remotes is renamed to remote",
+        "Command add is deprecated: use 'remote create'",
+        "Option --uri is renamed to --url",
+      ],
+    });
+    expect(stderr).not.toHaveBeenCalled();
+  });
+
+  test("parse() writes warnings to stderr", () => {
+    const stderr = jest.fn();
+    createParser(stderr).parse([
+      "remote",
+      "add",
+      "--url",
+      "http://example.com",
+    ]);
+    expect(stderr.mock.calls).toEqual([
+      ["Warning: Command add is deprecated: use 'remote create'"],
+    ]);
+  });
+
+  test("help", () => {
+    expect(createParser(jest.fn()).getHelp("remote")).toContain(
+      "add  [deprecated]"
+    );
+  });
+});
+
+describe("hidden", () => {
+  const createParser = (): CommandParser =>
+    parser()
+      .name("scriptA")
+      .subcommand(createActionUnexpectedCommand("command1"))
+      .subcommand(
+        command("maintenance")
+          .hidden()
+          .subcommand(
+            command("cleanup")
+              .options({ force: { type: z.boolean(), hidden: true } })
+              .action((_parsed) => {
+                expect(1).toBe(0);
+              })
+          )
+      );
+
+  test("hidden command is parsed", () => {
+    expect(
+      createParser().safeParse(["maintenance", "cleanup", "--force"])
+    ).toEqual({
+      type: "match",
+      parsed: { force: true },
+      commandName: "maintenance cleanup",
+      help: expect.stringContaining("Usage: scriptA maintenance cleanup"),
+    });
+  });
+
+  test("hidden command is not shown by --help", () => {
+    const result = createParser().safeParse(["--help"]);
+    expect(result.help).toContain("command1");
+    expect(result.help).not.toContain("maintenance");
+  });
+
+  test("--help-all shows full help of every command", () => {
+    const result = createParser().safeParse(["--help-all"]);
+    expect(result.type).toBe("help");
+    expect(result.help).toContain("  maintenance");
+    expect(result.help).toContain("Usage: scriptA command1 [options]");
+    expect(result.help).toContain(
+      "Usage: scriptA maintenance [options] <command>"
+    );
+    expect(result.help).toContain(
+      "Usage: scriptA maintenance cleanup [options]"
+    );
+    expect(result.help).toContain("--force");
+  });
+
+  test("--help-all after command name", () => {
+    const result = createParser().safeParse(["maintenance", "--help-all"]);
+    expect(result.type).toBe("help");
+    expect(result.help).not.toContain("command1");
+    expect(result.help).toContain("--force");
+  });
+});
+
+describe("envPrefix()", () => {
+  afterEach(() => {
+    delete process.env.MYAPP_OPT1;
+  });
+
+  test("applies to options of commands", () => {
+    process.env.MYAPP_OPT1 = "env_str1";
+    const result = parser()
+      .envPrefix("MYAPP")
+      .subcommand(createActionUnexpectedCommand("command1"))
+      .safeParse(["command1"]);
+    expect(result).toEqual({
+      type: "match",
+      parsed: { opt1: "env_str1" },
+      commandName: "command1",
+      help: expect.stringContaining("[env: MYAPP_OPT1]"),
+    });
+  });
+});
+
+describe("option relations", () => {
+  test("apply to options of commands", () => {
+    const p = parser().subcommand(
+      command("export")
+        .options({
+          file: { type: z.string().optional() },
+          url: { type: z.string().optional() },
+        })
+        .exactlyOneOf(["file", "url"])
+        .action(() => {})
+    );
+    expect(p.safeParse(["export", "--url", "u"])).toEqual(
+      expect.objectContaining({ parsed: { file: undefined, url: "u" } })
+    );
+    expect(p.safeParse(["export"])).toEqual(
+      expect.objectContaining({
+        error: new ParseError("One of the options is required: file, url"),
+        commandName: "export",
+      })
+    );
+  });
+});
+
+describe("multiple problems", () => {
+  test("zod issues are reported with problems of args", () => {
+    const result = parser()
+      .subcommand(
+        command("build")
+          .options({ name: { type: z.string().min(3) } })
+          .action(() => {})
+      )
+      .safeParse(["build", "--unknwn", "--name", "ab"]);
+    expect(result).toMatchObject({
+      commandName: "build",
+      error: {
+        code: "MULTIPLE_ERRORS",
+        errors: [
+          { code: "UNKNOWN_OPTION" },
+          { code: "ZOD_VALIDATION", path: ["name"] },
+        ],
+      },
+    });
+  });
+});
+
+describe("allowAbbreviations()", () => {
+  function createAbbreviationParser(): CommandParser {
+    return parser()
+      .subcommand(
+        command("remote")
+          .options({ verbose: { type: z.boolean().default(false) } })
+          .action(() => {})
+      )
+      .subcommand(createActionUnexpectedCommand("rename"))
+      .allowAbbreviations();
+  }
+
+  test("unique prefixes of command names", () => {
+    expect(createAbbreviationParser().safeParse(["rem", "--verb"])).toEqual(
+      expect.objectContaining({
+        parsed: { verbose: true },
+        commandName: "remote",
+      })
+    );
+  });
+
+  test("ambiguous prefixes", () => {
+    const result = createAbbreviationParser().safeParse(["re"]);
+    expect(result).toEqual(
+      expect.objectContaining({
+        error: new ParseError(
+          "Ambiguous command: re. Did you mean remote or rename?"
+        ),
+      })
+    );
+    expect(result.type === "error" && result.error).toEqual(
+      expect.objectContaining({
+        code: "AMBIGUOUS_COMMAND",
+        arg: "re",
+        suggestions: ["remote", "rename"],
+      })
+    );
+  });
+
+  test("deprecated commands are warned when abbreviated", () => {
+    const result = parser()
+      .subcommand(
+        command("old")
+          .deprecated("use new")
+          .action(() => {})
+      )
+      .subcommand(command("new").action(() => {}))
+      .allowAbbreviations()
+      .safeParse(["ol"]);
+    expect(result).toEqual(
+      expect.objectContaining({
+        commandName: "old",
+        warnings: ["Command old is deprecated: use new"],
+      })
+    );
+  });
+});
+
+describe("nested commands", () => {
+  function createRemoteParser(
+    action: (parsed: { url: string; verbose: boolean }) => void = () => {
+      expect(1).toBe(0);
+    }
+  ): CommandParser {
+    return parser()
+      .name("scriptA")
+      .subcommand(
+        command("remote")
+          .description("Manage remotes")
+          .subcommand(
+            command("add")
+              .description("Add a remote")
+              .options({
+                verbose: { type: z.boolean().default(false) },
+              })
+              .args([{ name: "url", type: z.string() }])
+              .action(action)
+          )
+          .subcommand(createActionUnexpectedCommand("remove"))
+      )
+      .subcommand(createActionUnexpectedCommand("status"));
+  }
+
+  test("calls action of the nested command", () => {
+    const action = jest.fn();
+    createRemoteParser(action)
+      ._internalHandler((result) => {
+        expect(result).toEqual({
+          type: "match",
+          parsed: { url: "https://example.com", verbose: true },
+          commandName: "remote add",
+          help: expect.stringContaining(
+            "Usage: scriptA remote add [options] <url>"
+          ),
+        });
+      })
+      .parse(["remote", "add", "--verbose", "https://example.com"]);
+    expect(action).toHaveBeenCalledWith({
+      url: "https://example.com",
+      verbose: true,
+    });
+  });
+
+  test("global help lists top level commands", () => {
+    const expectedHelp = `Usage: scriptA [options] <command>
+
+Commands:
+  remote  Manage remotes
+  status                
+
+Options:
+  -h, --help  Show help  
+`;
+    expectExit0(expectedHelp, () => {
+      createRemoteParser().parse(["--help"]);
+    });
+  });
+
+  test("group command help", () => {
+    const expectedHelp = `Usage: scriptA remote [options] <command>
+
+Manage remotes
+
+Commands:
+  add     Add a remote
+  remove              
+
+Options:
+  -h, --help  Show help  
+`;
+    expectExit0(expectedHelp, () => {
+      createRemoteParser().parse(["remote", "--help"]);
+    });
+    expectExit0(expectedHelp, () => {
+      createRemoteParser().parse(["--help", "remote"]);
+    });
+  });
+
+  test("nested command help", () => {
+    const expectedHelp = `Usage: scriptA remote add [options] <url>
+
+Add a remote
+
+Arguments:
+  url    [required]
+
+Options:
+  -h, --help     Show help         
+      --verbose  (default: false)  
+`;
+    expectExit0(expectedHelp, () => {
+      createRemoteParser().parse(["remote", "add", "--help"]);
+    });
+    expectExit0(expectedHelp, () => {
+      createRemoteParser().parse(["--help", "remote", "add"]);
+    });
+    expect(createRemoteParser().getHelp("remote add")).toEqual(expectedHelp);
+  });
+
+  test("error when no nested command specified", () => {
+    expectProcessExit("No command specified", 1, () => {
+      createRemoteParser()
+        ._internalHandler((result) => {
+          expect(result).toEqual({
+            type: "error",
+            error: new ParseError("No command specified"),
+            commandName: "remote",
+            help: expect.stringContaining(
+              "Usage: scriptA remote [options] <command>"
+            ),
+            exitCode: 1,
+          });
+        })
+        .parse(["remote"]);
+    });
+  });
+
+  test("error on unknown nested command", () => {
+    expectProcessExit("Unknown command: rename", 1, () => {
+      createRemoteParser().parse(["remote", "rename"]);
+    });
+  });
+
+  test("error on parse() of nested command", () => {
+    expectProcessExit("Required argument is missing: url", 1, () => {
+      createRemoteParser()
+        ._internalHandler((result) => {
+          expect(result.type).toBe("error");
+          expect((result as { commandName?: string }).commandName).toBe(
+            "remote add"
+          );
+        })
+        .parse(["remote", "add"]);
+    });
+  });
+
+  test("throws runtime error on subcommand with options", () => {
+    expect(() => {
+      command("remote")
+        .options({ opt1: { type: z.string() } })
+        .subcommand(createActionUnexpectedCommand("add"));
+    }).toThrowError("Cannot add subcommand to command with options().");
+  });
+
+  test("throws runtime error on subcommand with action", () => {
+    expect(() => {
+      command("remote")
+        .action(() => {})
+        .subcommand(createActionUnexpectedCommand("add"));
+    }).toThrowError("Cannot add subcommand to command with action().");
+  });
+
+  test("throws runtime error on duplicated nested command name", () => {
+    expect(() => {
+      command("remote")
+        .subcommand(createActionUnexpectedCommand("add"))
+        .subcommand(createActionUnexpectedCommand("add"));
+    }).toThrowError("Duplicated command name: add");
+  });
+});
+
 describe("subcommand()", () => {
   test("throws runtime error on command without action", () => {
     expect(() => {
@@ -513,6 +1105,61 @@ describe("subcommand()", () => {
   });
 });
 
+describe("help colors", () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  test("help in results stays plain, and written help is styled", () => {
+    process.env = { ...env, FORCE_COLOR: "1", NO_COLOR: undefined };
+    const stdout: string[] = [];
+    const p = parser()
+      .name("scriptA")
+      .subcommand(createActionUnexpectedCommand("build"))
+      .output({ stdout: (text) => stdout.push(text), exit: () => {} });
+    expect(p.getHelp()).not.toContain("\u001b[");
+    expect(p.safeParse(["--help"])).toEqual(
+      expect.objectContaining({
+        help: expect.not.stringContaining("\u001b[") as unknown,
+      })
+    );
+    expect(() => p.parse(["--help"])).toThrow();
+    expect(stdout[0]).toContain("\u001b[36mbuild\u001b[39m");
+  });
+
+  test("args are not parsed again to style help", () => {
+    process.env = { ...env, FORCE_COLOR: "1", NO_COLOR: undefined };
+    const check = jest.fn((value: string) => value === "valid");
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const p = parser()
+      .name("scriptA")
+      .subcommand(
+        command("build")
+          .options({ opt1: { type: z.string().refine(check) } })
+          .action(() => {})
+      )
+      .subcommand(
+        command("secret")
+          .hidden()
+          .action(() => {})
+      )
+      .output({
+        stdout: (text) => stdout.push(text),
+        stderr: (text) => stderr.push(text),
+        exit: () => {},
+      });
+    expect(() => p.parse(["build", "--opt1", "invalid"])).toThrow();
+    expect(check).toHaveBeenCalledTimes(1);
+    expect(stderr[1]).toContain(" scriptA build [options]");
+    expect(stderr[1]).toContain("\u001b[36m--opt1\u001b[39m");
+    expect(() => p.parse(["--help-all"])).toThrow();
+    expect(stdout[0]).toContain("\u001b[36msecret\u001b[39m");
+  });
+});
+
 describe("getHelp()", () => {
   const testCommand = command("command1")
     .description("desc2")
@@ -574,6 +1221,26 @@ Options:
       .getHelp("command1");
     expect(help).toEqual(expectedHelp);
   });
+
+  test("command help with option groups", () => {
+    const help = parser()
+      .name("scriptA")
+      .groupOrder(["Networking"])
+      .subcommand(
+        command("deploy")
+          .options({
+            user: { type: z.string(), group: "Auth" },
+            host: { type: z.string(), group: "Networking" },
+          })
+          .action((_parsed) => {
+            expect(1).toBe(0);
+          })
+      )
+      .safeParse(["deploy", "--help"]).help;
+    expect(help).toMatch(
+      /Options:\n.*--help.*\n\nNetworking:\n.*--host.*\n\nAuth:\n.*--user/
+    );
+  });
 });
 
 describe("showHelp()", () => {
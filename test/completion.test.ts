@@ -0,0 +1,169 @@
+import { execFileSync } from "node:child_process";
+
+import { z } from "zod";
+
+import { command, parser } from "../src";
+import { generateCompletion } from "../src/completion";
+import { createInternalOption } from "./test_util";
+
+function createParser() {
+  return parser()
+    .name("mycli")
+    .version("1.0.0")
+    .subcommand(
+      command("remote")
+        .description("Manage remotes")
+        .subcommand(
+          command("add")
+            .options({
+              level: { type: z.enum(["low", "high"]), alias: "l" },
+              file: { type: z.string() },
+            })
+            .args([{ name: "kind", type: z.enum(["git", "svn"]) }])
+            .action(() => {})
+        )
+    )
+    .subcommand(command("status").action(() => {}));
+}
+
+describe("generateCompletion()", () => {
+  const root = {
+    name: "mycli",
+    options: [
+      createInternalOption({ name: "level", enumValues: ["low", "high"] }),
+      createInternalOption({ name: "verbose", type: "boolean", alias: "v" }),
+    ],
+    positionalArgs: [],
+  };
+
+  test("bash", () => {
+    const script = generateCompletion({
+      shell: "bash",
+      name: "mycli",
+      command: root,
+    });
+    expect(script).toContain("flags='--help -h --level -a --verbose -v'");
+    expect(script).toContain(
+      `--level|-a) COMPREPLY=($(compgen -W 'low high' -- "\${cur}")); return ;;`
+    );
+    expect(script).toContain("complete -o default -F _mycli_completion mycli");
+    expect(script).not.toContain("--version");
+  });
+
+  test("zsh", () => {
+    const script = generateCompletion({
+      shell: "zsh",
+      name: "mycli",
+      command: root,
+      version: "1.0.0",
+    });
+    expect(script.startsWith("#compdef mycli\n")).toBe(true);
+    expect(script).toContain(
+      "flags=('--help' '-h' '--version' '-V' '--level' '-a' '--verbose' '-v')"
+    );
+    expect(script).toContain("--level|-a) compadd -- 'low' 'high'; return ;;");
+  });
+
+  test("fish", () => {
+    const script = generateCompletion({
+      shell: "fish",
+      name: "mycli",
+      command: root,
+    });
+    expect(script).toContain(
+      "complete -c mycli -n 'test (__mycli_command_path) = \\'mycli\\'' -l level -s a -r -f -a 'low high'"
+    );
+    expect(script).toContain(
+      "complete -c mycli -n 'test (__mycli_command_path) = \\'mycli\\'' -l verbose -s v"
+    );
+  });
+  test("literals and native enums are completed", () => {
+    enum Level {
+      Low = 1,
+      High = 5,
+    }
+    const script = parser()
+      .name("mycli")
+      .options({
+        mode: { type: z.union([z.literal("fast"), z.literal("safe")]) },
+        level: { type: z.nativeEnum(Level) },
+      })
+      .getCompletion("bash");
+    expect(script).toContain(
+      `--mode) COMPREPLY=($(compgen -W 'fast safe' -- "\${cur}")); return ;;`
+    );
+    expect(script).toContain(
+      `--level) COMPREPLY=($(compgen -W '1 5' -- "\${cur}")); return ;;`
+    );
+  });
+
+  test("aliases are completed", () => {
+    const p = parser()
+      .name("mycli")
+      .options({
+        format: {
+          type: z.enum(["json", "yaml"]),
+          aliases: ["f", "fmt"],
+        },
+      });
+    expect(p.getCompletion("bash")).toContain(
+      `--format|-f|--fmt) COMPREPLY=($(compgen -W 'json yaml' -- "\${cur}")); return ;;`
+    );
+    expect(p.getCompletion("fish")).toContain(
+      `-l format -s f -l fmt -r -f -a 'json yaml'`
+    );
+  });
+});
+
+describe("getCompletion()", () => {
+  test("nested commands", () => {
+    const script = createParser().getCompletion("bash");
+    expect(script).toContain("'remote:add') cmd_path='remote add' ;;");
+    expect(script).toContain("words='remote status'");
+    expect(script).toContain("words='git svn'");
+    expect(script).toContain(
+      `--level|-l) COMPREPLY=($(compgen -W 'low high' -- "\${cur}")); return ;;`
+    );
+    expect(script).toContain(
+      `--file) COMPREPLY=($(compgen -f -- "\${cur}")); return ;;`
+    );
+  });
+
+  test("bash script completes words", () => {
+    const script = createParser().getCompletion("bash");
+    const complete = (line: string): string =>
+      execFileSync(
+        "bash",
+        [
+          "-c",
+          `${script}
+COMP_WORDS=(${line}); COMP_CWORD=\${#COMP_WORDS[@]}; COMP_WORDS+=("\${CUR}")
+_mycli_completion
+echo "\${COMPREPLY[@]}"`,
+        ],
+        { encoding: "utf8", env: { ...process.env, CUR: "" } }
+      ).trim();
+
+    expect(complete("mycli")).toBe("remote status");
+    expect(complete("mycli remote")).toBe("add");
+    expect(complete("mycli remote add")).toBe("git svn");
+    expect(complete("mycli remote add --level")).toBe("low high");
+  });
+});
+
+describe("completion()", () => {
+  test("prints completion script", () => {
+    const stdout = jest.fn();
+    const p = createParser().completion().output({ stdout });
+    p.parse(["completion", "fish"]);
+    expect(stdout).toHaveBeenCalledWith(p.getCompletion("fish"));
+  });
+
+  test("invalid shell", () => {
+    const stderr = jest.fn();
+    const exit = jest.fn();
+    const p = createParser().completion().output({ stderr, exit });
+    expect(() => p.parse(["completion", "powershell"])).toThrow();
+    expect(exit).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,69 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
+import { loadConfigFile } from "../src/config_file";
+import { ParseError } from "../src/error";
+import { createInternalOption } from "./test_util";
+
+describe("loadConfigFile()", () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "zod-opts-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writeFile(text: string): string {
+    const filePath = path.join(dir, "config.json");
+    fs.writeFileSync(filePath, text);
+    return filePath;
+  }
+
+  test("returns option values", () => {
+    const filePath = writeFile(JSON.stringify({ opt1: "str1", opt2: 10 }));
+    expect(
+      loadConfigFile(filePath, [
+        createInternalOption({ name: "opt1" }),
+        createInternalOption({ name: "opt2", type: "number" }),
+      ])
+    ).toEqual({ opt1: "str1", opt2: 10 });
+  });
+
+  test("throws on unknown key", () => {
+    const filePath = writeFile(JSON.stringify({ opt1: "str1", unknown: 1 }));
+    expect(() =>
+      loadConfigFile(filePath, [createInternalOption({ name: "opt1" })])
+    ).toThrow(
+      new ParseError(`Unknown key in config file (${filePath}): unknown`)
+    );
+  });
+
+  test("throws on invalid JSON", () => {
+    const filePath = writeFile("{");
+    expect(() => loadConfigFile(filePath, [])).toThrow(
+      `Invalid JSON in config file (${filePath})`
+    );
+  });
+
+  test("throws on non object JSON", () => {
+    const filePath = writeFile("[]");
+    expect(() => loadConfigFile(filePath, [])).toThrow(
+      `Config file must contain a JSON object: ${filePath}`
+    );
+    expect(() => loadConfigFile(filePath, [])).toThrow(
+      expect.objectContaining({ code: "CONFIG_FILE", path: filePath })
+    );
+  });
+
+  test("missing file", () => {
+    const filePath = path.join(dir, "missing.json");
+    expect(() => loadConfigFile(filePath, [])).toThrow(
+      `Failed to read config file (${filePath})`
+    );
+    expect(loadConfigFile(filePath, [], true)).toEqual({});
+  });
+});
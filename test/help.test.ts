@@ -1,4 +1,6 @@
 import {
+  generateCommandHelpAll,
+  generateCommandsText,
   generateGlobalCommandHelp,
   generateGlobalHelp,
   generateGlobalUsage,
@@ -279,3 +281,192 @@ Options:
     expect(result).toBe(expected);
   });
 });
+
+describe("hidden", () => {
+  const commands: InternalCommand[] = [
+    {
+      name: "command1",
+      description: "good command",
+      options: [
+        createInternalOption({ name: "opt1", alias: "o" }),
+        {
+          ...createInternalOption({ name: "debug", alias: "d" }),
+          hidden: true,
+        },
+      ],
+      positionalArgs: [],
+    },
+    {
+      name: "maintenance",
+      description: "hidden command",
+      options: [],
+      positionalArgs: [],
+      hidden: true,
+    },
+  ];
+
+  test("generateOptionsText() and generateCommandsText() omit hidden items", () => {
+    expect(generateOptionsText(commands[0].options)).toBe(`Options:
+  -o, --opt1 <string>    [required]`);
+    expect(generateOptionsText(commands[0].options, 2, true)).toBe(`Options:
+  -o, --opt1 <string>     [required]
+  -d, --debug <string>    [required]`);
+    expect(generateCommandsText(commands)).toBe(`Commands:
+  command1  good command`);
+  });
+
+  test("--help-all is listed when something is hidden", () => {
+    expect(generateGlobalCommandHelp({ commands, name: "scriptA" }))
+      .toBe(`Usage: scriptA [options] <command>
+
+Commands:
+  command1  good command
+
+Options:
+  -h, --help      Show help                                        
+      --help-all  Show help including hidden options and commands  
+`);
+  });
+
+  test("generateCommandHelpAll()", () => {
+    const result = generateCommandHelpAll({ commands, name: "scriptA" });
+    expect(result).toBe(`Usage: scriptA [options] <command>
+
+Commands:
+  command1     good command  
+  maintenance  hidden command
+
+Options:
+  -h, --help      Show help                                        
+      --help-all  Show help including hidden options and commands  
+
+Usage: scriptA command1 [options] 
+
+good command
+
+Options:
+  -h, --help            Show help                                                  
+      --help-all        Show help including hidden options and commands            
+  -o, --opt1 <string>                                                    [required]
+  -d, --debug <string>                                                   [required]
+
+Usage: scriptA maintenance [options] 
+
+hidden command
+
+Options:
+  -h, --help  Show help  
+`);
+  });
+});
+
+describe("option groups", () => {
+  const options: InternalOption[] = [
+    createInternalOption({
+      name: "verbose",
+      type: "boolean",
+      alias: "v",
+      required: false,
+    }),
+    {
+      ...createInternalOption({ name: "user", alias: "u" }),
+      group: "Auth",
+    },
+    {
+      ...createInternalOption({ name: "host", alias: "H" }),
+      group: "Networking",
+    },
+    {
+      ...createInternalOption({ name: "port", type: "number", alias: "p" }),
+      group: "Networking",
+    },
+  ];
+
+  test("renders one section per group", () => {
+    expect(generateOptionsText(options)).toBe(`Options:
+  -v, --verbose                    
+
+Auth:
+  -u, --user <string>    [required]
+
+Networking:
+  -H, --host <string>    [required]
+  -p, --port <number>    [required]`);
+  });
+
+  test("groupOrder", () => {
+    expect(generateOptionsText(options, 2, false, ["Networking"]))
+      .toBe(`Options:
+  -v, --verbose                    
+
+Networking:
+  -H, --host <string>    [required]
+  -p, --port <number>    [required]
+
+Auth:
+  -u, --user <string>    [required]`);
+  });
+
+  test("omits empty default section", () => {
+    expect(generateOptionsText(options.slice(1, 2))).toBe(`Auth:
+  -u, --user <string>    [required]`);
+  });
+});
+
+describe("width", () => {
+  test("wraps descriptions under their column", () => {
+    const options: InternalOption[] = [
+      createInternalOption({
+        name: "opt1",
+        alias: "o",
+        description:
+          "long description of the option which does not fit in the width",
+      }),
+    ];
+    expect(generateOptionsText(options, 2, false, [], { width: 60 }))
+      .toBe(`Options:
+  -o, --opt1 <string>  long description of the    [required]
+                       option which does not fit
+                       in the width`);
+  });
+
+  test("aligns East Asian wide characters", () => {
+    const options: InternalOption[] = [
+      createInternalOption({ name: "opt1", alias: "o", description: "説明" }),
+      createInternalOption({ name: "opt2", alias: "p", description: "desc" }),
+    ];
+    expect(generateOptionsText(options)).toBe(`Options:
+  -o, --opt1 <string>  説明  [required]
+  -p, --opt2 <string>  desc  [required]`);
+  });
+
+  test("multi-paragraph descriptions", () => {
+    const result = generateGlobalHelp({
+      options: [
+        createInternalOption({
+          name: "opt1",
+          alias: "o",
+          description: "first paragraph\n\nsecond paragraph",
+          required: false,
+        }),
+      ],
+      positionalArgs: [],
+      name: "scriptA",
+      description: "program description which is wrapped\n\nsecond paragraph",
+      format: { width: 24 },
+    });
+    expect(result).toBe(`Usage: scriptA [options] 
+
+program description
+which is wrapped
+
+second paragraph
+
+Options:
+  -h, --help           Show help           
+  -o, --opt1 <string>  first paragraph     
+
+                       second paragraph
+`);
+  });
+});
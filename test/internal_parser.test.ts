@@ -3,6 +3,7 @@ import {
   isNumericValue,
   likesOptionArg,
   parse,
+  parseCollectingErrors,
   parseMultipleCommands,
   pickPositionalArguments,
 } from "../src/internal_parser";
@@ -68,6 +69,19 @@ describe("findOptionByPrefixedName()", () => {
       )
     ).toEqual([createInternalOption({ name: "opt1", type: "boolean" }), true]);
 
+    const renamedOption = {
+      ...createInternalOption({ name: "opt1", type: "boolean" }),
+      renamedFrom: "old-opt1",
+    };
+    expect(findOptionByPrefixedName([renamedOption], "--old-opt1")).toEqual([
+      renamedOption,
+      false,
+    ]);
+    expect(findOptionByPrefixedName([renamedOption], "--no-old-opt1")).toEqual([
+      renamedOption,
+      true,
+    ]);
+
     // don't check required
     expect(
       findOptionByPrefixedName(
@@ -149,6 +163,7 @@ describe("parse()", () => {
         ],
         positionalCandidates: [],
         isHelp: false,
+        isHelpAll: false,
         isVersion: false,
       });
     });
@@ -179,6 +194,7 @@ describe("parse()", () => {
           },
         ],
         isHelp: false,
+        isHelpAll: false,
         isVersion: false,
       });
     });
@@ -217,6 +233,7 @@ describe("parse()", () => {
           },
         ],
         isHelp: false,
+        isHelpAll: false,
         isVersion: false,
       });
     });
@@ -243,6 +260,7 @@ describe("parse()", () => {
           },
         ],
         isHelp: false,
+        isHelpAll: false,
         isVersion: false,
       });
     });
@@ -265,6 +283,7 @@ describe("parse()", () => {
           },
         ],
         isHelp: false,
+        isHelpAll: false,
         isVersion: false,
       });
     });
@@ -285,6 +304,7 @@ describe("parse()", () => {
           },
         ],
         isHelp: true,
+        isHelpAll: false,
         isVersion: false,
       });
     });
@@ -352,6 +372,84 @@ describe("parse()", () => {
           },
         ],
         isHelp: false,
+        isHelpAll: false,
+        isVersion: false,
+      });
+    });
+
+    test("count option takes no value", () => {
+      expect(
+        parse({
+          args: ["-vv", "pos1"],
+          options: [
+            {
+              ...createInternalOption({
+                name: "verbose",
+                alias: "v",
+                type: "number",
+              }),
+              count: true,
+            },
+          ],
+          positionalArgs: [createInternalPositionalArgument({ name: "pos1" })],
+        })
+      ).toEqual({
+        candidates: [
+          { name: "verbose", value: undefined, isNegative: false },
+          { name: "verbose", value: undefined, isNegative: false },
+        ],
+        positionalCandidates: [{ name: "pos1", value: "pos1" }],
+        isHelp: false,
+        isHelpAll: false,
+        isVersion: false,
+      });
+    });
+
+    test("tuple option takes values of its elements", () => {
+      expect(
+        parse({
+          args: ["-p", "1", "2", "pos1"],
+          options: [
+            {
+              ...createInternalOption({ name: "point", alias: "p" }),
+              tupleTypes: ["number", "number"],
+            },
+          ],
+          positionalArgs: [createInternalPositionalArgument({ name: "pos1" })],
+        })
+      ).toEqual({
+        candidates: [{ name: "point", value: ["1", "2"], isNegative: false }],
+        positionalCandidates: [{ name: "pos1", value: "pos1" }],
+        isHelp: false,
+        isHelpAll: false,
+        isVersion: false,
+      });
+    });
+
+    test("record option with value attached to alias", () => {
+      expect(
+        parse({
+          args: ["-DFOO=1", "-D", "BAR=2"],
+          options: [
+            {
+              ...createInternalOption({
+                name: "define",
+                alias: "D",
+                isArray: true,
+              }),
+              isRecord: true,
+            },
+          ],
+          positionalArgs: [],
+        })
+      ).toEqual({
+        candidates: [
+          { name: "define", value: ["FOO=1"], isNegative: false },
+          { name: "define", value: ["BAR=2"], isNegative: false },
+        ],
+        positionalCandidates: [],
+        isHelp: false,
+        isHelpAll: false,
         isVersion: false,
       });
     });
@@ -388,6 +486,7 @@ describe("parse()", () => {
           },
         ],
         isHelp: false,
+        isHelpAll: false,
         isVersion: false,
       });
     });
@@ -420,6 +519,7 @@ describe("parse()", () => {
           },
         ],
         isHelp: false,
+        isHelpAll: false,
         isVersion: false,
       });
     });
@@ -443,6 +543,7 @@ describe("parse()", () => {
         ],
         positionalCandidates: [],
         isHelp: false,
+        isHelpAll: false,
         isVersion: false,
       });
     });
@@ -512,6 +613,24 @@ describe("parse()", () => {
       }).toThrow("Positional arguments specified twice");
     });
 
+    test("collects errors and continues parsing", () => {
+      const parsed = parseCollectingErrors({
+        args: ["--missing", "--opt1", "str1", "pos1", "pos2"],
+        options: [createInternalOption({ name: "opt1" })],
+        positionalArgs: [createInternalPositionalArgument({ name: "pos1" })],
+      });
+      expect(parsed.candidates).toEqual([
+        { name: "opt1", value: "str1", isNegative: false },
+      ]);
+      expect(parsed.positionalCandidates).toEqual([
+        { name: "pos1", value: "pos1" },
+      ]);
+      expect(parsed.errors?.map((e) => e.message)).toEqual([
+        "Invalid option: missing",
+        "Too many positional arguments",
+      ]);
+    });
+
     describe("unified option", () => {
       test("-abc => -ab -c", () => {
         expect(() => {
@@ -572,22 +691,22 @@ describe("parse()", () => {
 
 describe("parseMultipleCommands", () => {
   test("parse", () => {
+    const cmd1 = {
+      name: "cmd1",
+      options: [
+        createInternalOption({ name: "opt1" }),
+        createInternalOption({ name: "opt2" }),
+      ],
+      positionalArgs: [],
+    };
     expect(
       parseMultipleCommands({
         args: ["cmd1", "--opt1", "opt_str1"],
-        commands: [
-          {
-            name: "cmd1",
-            options: [
-              createInternalOption({ name: "opt1" }),
-              createInternalOption({ name: "opt2" }),
-            ],
-            positionalArgs: [],
-          },
-        ],
+        commands: [cmd1],
       })
     ).toEqual({
       commandName: "cmd1",
+      resolvedCommands: [{ arg: "cmd1", command: cmd1 }],
       candidates: [
         {
           name: "opt1",
@@ -597,6 +716,7 @@ describe("parseMultipleCommands", () => {
       ],
       positionalCandidates: [],
       isHelp: false,
+      isHelpAll: false,
       isVersion: false,
     });
   });
@@ -620,6 +740,7 @@ describe("parseMultipleCommands", () => {
       candidates: [],
       positionalCandidates: [],
       isHelp: true,
+      isHelpAll: false,
       isVersion: false,
     });
   });
@@ -659,30 +780,32 @@ describe("parseMultipleCommands", () => {
       candidates: [],
       positionalCandidates: [],
       isHelp: true,
+      isHelpAll: false,
       isVersion: false,
     });
   });
 
   test("command help when '--help' after command name", () => {
+    const cmd1 = {
+      name: "cmd1",
+      options: [
+        createInternalOption({ name: "opt1" }),
+        createInternalOption({ name: "opt2" }),
+      ],
+      positionalArgs: [],
+    };
     expect(
       parseMultipleCommands({
         args: ["cmd1", "--help"],
-        commands: [
-          {
-            name: "cmd1",
-            options: [
-              createInternalOption({ name: "opt1" }),
-              createInternalOption({ name: "opt2" }),
-            ],
-            positionalArgs: [],
-          },
-        ],
+        commands: [cmd1],
       })
     ).toEqual({
       commandName: "cmd1",
+      resolvedCommands: [{ arg: "cmd1", command: cmd1 }],
       candidates: [],
       positionalCandidates: [],
       isHelp: true,
+      isHelpAll: false,
       isVersion: false,
     });
   });
@@ -706,7 +829,67 @@ describe("parseMultipleCommands", () => {
       candidates: [],
       positionalCandidates: [],
       isHelp: false,
+      isHelpAll: false,
       isVersion: true,
     });
   });
+
+  test("nested command", () => {
+    const commands = [
+      {
+        name: "remote",
+        options: [],
+        positionalArgs: [],
+        commands: [
+          {
+            name: "add",
+            options: [createInternalOption({ name: "opt1" })],
+            positionalArgs: [],
+          },
+        ],
+      },
+    ];
+    expect(
+      parseMultipleCommands({
+        args: ["remote", "add", "--opt1", "opt_str1"],
+        commands,
+      })
+    ).toEqual({
+      commandName: "remote add",
+      resolvedCommands: [
+        { arg: "remote", command: commands[0] },
+        { arg: "add", command: commands[0].commands[0] },
+      ],
+      candidates: [
+        {
+          name: "opt1",
+          value: "opt_str1",
+          isNegative: false,
+        },
+      ],
+      positionalCandidates: [],
+      isHelp: false,
+      isHelpAll: false,
+      isVersion: false,
+    });
+    expect(
+      parseMultipleCommands({
+        args: ["remote", "--help"],
+        commands,
+      })
+    ).toEqual({
+      commandName: "remote",
+      candidates: [],
+      positionalCandidates: [],
+      isHelp: true,
+      isHelpAll: false,
+      isVersion: false,
+    });
+    expect(() =>
+      parseMultipleCommands({
+        args: ["remote"],
+        commands,
+      })
+    ).toThrow("No command specified");
+  });
 });
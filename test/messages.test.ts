@@ -0,0 +1,75 @@
+import {
+  combineParseErrors,
+  CommandError,
+  ConfigFileError,
+  OptionError,
+  ValidationError,
+} from "../src/error";
+import {
+  DEFAULT_MESSAGES,
+  localizeParseError,
+  resolveMessages,
+} from "../src/messages";
+
+describe("resolveMessages()", () => {
+  test("English by default", () => {
+    expect(resolveMessages()).toBe(DEFAULT_MESSAGES);
+    expect(resolveMessages({ usage: "使い方:" }).usage).toBe("使い方:");
+    expect(resolveMessages({ usage: "使い方:" }).options).toBe("Options:");
+  });
+});
+
+describe("localizeParseError()", () => {
+  const ja = resolveMessages({
+    missingValue: (name) => `オプション --${name} に値が必要です`,
+    unexpectedCountValue: (name) => `オプション --${name} は値を取りません`,
+    invalidOptionValue: (name, expectedType) =>
+      `--${name} には ${expectedType} を指定してください`,
+    configFileUnknownKeys: (path, keys) =>
+      `設定ファイル ${path} に不明なキーがあります: ${keys.join(", ")}`,
+    zodIssue: (message, path) => `${path}: ${message}`,
+    conflictingOptions: (names) => `${names.join(" と ")} は同時に使えません`,
+    ambiguousCommand: (name) => `コマンド ${name} は曖昧です`,
+    didYouMean: (candidates) =>
+      candidates.length !== 0 ? ` (候補: ${candidates.join(", ")})` : "",
+  });
+
+  test("renders messages from fields of errors", () => {
+    const error = combineParseErrors([
+      new OptionError("MISSING_VALUE", "", { optionName: "opt1" }),
+      new OptionError("UNEXPECTED_COUNT_VALUE", "", { optionName: "verbose" }),
+      new OptionError("INVALID_OPTION_VALUE", "", {
+        optionName: "num",
+        expectedType: "number",
+      }),
+      new ConfigFileError("", "a.json", {
+        reason: "UNKNOWN_KEY",
+        keys: ["foo", "bar"],
+      }),
+      new ValidationError("ZOD_VALIDATION", "", ["num"], undefined, "too big"),
+      new OptionError("CONFLICTING_OPTIONS", "", {
+        optionName: "json",
+        relatedOptionNames: ["yaml"],
+      }),
+      Object.assign(new CommandError("AMBIGUOUS_COMMAND", "", "re"), {
+        suggestions: ["remote", "rename"],
+      }),
+    ]);
+    expect(localizeParseError(error, ja).message).toBe(
+      [
+        "オプション --opt1 に値が必要です",
+        "オプション --verbose は値を取りません",
+        "--num には number を指定してください",
+        "設定ファイル a.json に不明なキーがあります: foo, bar",
+        "num: too big",
+        "json と yaml は同時に使えません",
+        "コマンド re は曖昧です (候補: remote, rename)",
+      ].join("\n")
+    );
+  });
+
+  test("keeps messages of custom validation", () => {
+    const error = new ValidationError("CUSTOM_VALIDATION", "custom message");
+    expect(localizeParseError(error, ja).message).toBe("custom message");
+  });
+});
@@ -1,10 +1,19 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+
 import { expectTypeOf } from "expect-type";
 import { z } from "zod";
 
 import { isZodV4 } from "../src/compat";
-import { ParseError } from "../src/error";
+import { OptionError, ParseError, ValidationError } from "../src/error";
 import { parser } from "../src/parser";
-import { expectExit0, expectProcessExit } from "./test_util";
+import { registerValueType, resetValueTypes } from "../src/value_type";
+import {
+  expectExit0,
+  expectProcessExit,
+  expectProcessExitAsync,
+} from "./test_util";
 
 describe("complex", () => {
   test("returns parsed args when variable string arguments exist", () => {
@@ -530,6 +539,16 @@ describe("type", () => {
       );
     });
 
+    test("suggests the closest choice", () => {
+      const result = parser()
+        .options({ fruit: { type: z.enum(["apple", "banana"]) } })
+        .safeParse(["--fruit", "aple"]);
+      expect(result.type).toBe("error");
+      if (result.type !== "error") return;
+      expect(result.error.message).toMatch(/: fruit\. Did you mean "apple"\?$/);
+      expect((result.error as ParseError).suggestions).toEqual(["apple"]);
+    });
+
     test("with arg", () => {
       const parsed = parser()
         .options({ opt: { type: z.enum(["a", "b", "c"]) } })
@@ -569,6 +588,59 @@ describe("type", () => {
         opt?: "a" | "b" | "c";
       }>();
     });
+
+    test("literal and union of literals", () => {
+      const p = parser()
+        .name("scriptA")
+        .options({
+          mode: { type: z.literal("auto") },
+          color: {
+            type: z.union([z.literal("red"), z.literal("blue")]).optional(),
+          },
+          level: { type: z.union([z.literal(1), z.literal(2)]).default(1) },
+        });
+      const parsed = p.parse(["--mode", "auto", "--level", "2"]);
+      expect(parsed).toEqual({ mode: "auto", color: undefined, level: 2 });
+      expectTypeOf(parsed).toEqualTypeOf<{
+        mode: "auto";
+        color?: "red" | "blue";
+        level: 1 | 2;
+      }>();
+      expect(p.getHelp()).toContain(
+        `--color <string>  (choices: "red", "blue")`
+      );
+      expect(p.getHelp()).toContain(
+        `--level <number>  (choices: 1, 2) (default: 1)`
+      );
+    });
+
+    test("native enum", () => {
+      enum Color {
+        Red = "red",
+        Blue = "blue",
+      }
+      enum Level {
+        Low = 1,
+        High = 5,
+      }
+      const p = parser()
+        .name("scriptA")
+        .options({
+          color: { type: z.nativeEnum(Color) },
+          level: { type: z.nativeEnum(Level) },
+        });
+      const parsed = p.parse(["--color", "blue", "--level", "5"]);
+      expect(parsed).toEqual({ color: Color.Blue, level: Level.High });
+      expectTypeOf(parsed.color).toEqualTypeOf<Color>();
+      expectTypeOf(parsed.level).toEqualTypeOf<Level>();
+      expect(p.getHelp()).toContain(`(choices: "red", "blue")`);
+      expect(p.getHelp()).toContain(`--level <number>  (choices: 1, 5)`);
+      expect(p.safeParse(["--color", "red", "--level", "High"])).toEqual(
+        expect.objectContaining({
+          error: expect.objectContaining({ code: "INVALID_OPTION_VALUE" }),
+        })
+      );
+    });
   });
 
   describe("union", () => {
@@ -1065,6 +1137,814 @@ describe("type", () => {
   });
 });
 
+describe("value types", () => {
+  afterEach(() => {
+    resetValueTypes();
+  });
+
+  test("date", () => {
+    const parsed = parser()
+      .options({
+        since: { type: z.date() },
+        until: { type: z.date().optional() },
+      })
+      .args([{ name: "days", type: z.array(z.date()) }])
+      .parse(["--since", "2024-01-31", "2024-02-01T09:00:00Z", "2024-02-02"]);
+    expect(parsed).toEqual({
+      since: new Date("2024-01-31"),
+      until: undefined,
+      days: [new Date("2024-02-01T09:00:00Z"), new Date("2024-02-02")],
+    });
+    expectTypeOf(parsed).toEqualTypeOf<{
+      since: Date;
+      until?: Date;
+      days: Date[];
+    }>();
+  });
+
+  test("bigint", () => {
+    const parsed = parser()
+      .options({ id: { type: z.bigint() } })
+      .parse(["--id", "12345678901234567890"]);
+    expect(parsed).toEqual({ id: BigInt("12345678901234567890") });
+    expectTypeOf(parsed).toEqualTypeOf<{ id: bigint }>();
+  });
+
+  test("bigint default is shown like number", () => {
+    const p = parser().options({
+      id: { type: z.bigint().default(BigInt(5)) },
+      ids: { type: z.array(z.bigint()).default([BigInt(1), BigInt(2)]) },
+    });
+    expect(p.getHelp()).toContain("--id <bigint>       (default: 5)");
+    expect(p.getHelp()).toContain("(default: [1,2])");
+  });
+
+  test("url stays string and is validated by zod", () => {
+    const p = parser().options({ endpoint: { type: z.string().url() } });
+    expect(p.parse(["--endpoint", "https://example.com"])).toEqual({
+      endpoint: "https://example.com",
+    });
+    expect(p.safeParse(["--endpoint", "example"])).toEqual(
+      expect.objectContaining({
+        error: expect.objectContaining({ code: "ZOD_VALIDATION" }),
+      })
+    );
+  });
+
+  test("invalid values", () => {
+    const result = parser()
+      .options({ since: { type: z.date() }, id: { type: z.bigint() } })
+      .safeParse(["--since", "yesterday", "--id", "1.5"]);
+    expect(result).toEqual(
+      expect.objectContaining({
+        error: new ParseError(
+          "Invalid option value. date is expected: since\nInvalid option value. bigint is expected: id"
+        ),
+      })
+    );
+    expect(
+      result.type === "error" && (result.error as ParseError).errors[0]
+    ).toEqual(
+      expect.objectContaining({
+        code: "INVALID_OPTION_VALUE",
+        arg: "yesterday",
+        expectedType: "date",
+      })
+    );
+  });
+
+  test("environment variables and defaults", () => {
+    const p = parser()
+      .name("scriptA")
+      .options({
+        since: { type: z.date(), env: "SINCE" },
+        until: { type: z.date().default(new Date("2024-12-31")) },
+      });
+    expect(p.safeParse([])).toEqual(
+      expect.objectContaining({
+        error: new OptionError(
+          "MISSING_REQUIRED_OPTION",
+          "Required option is missing: since",
+          { optionName: "since" }
+        ),
+      })
+    );
+    const env = process.env;
+    process.env = { ...env, SINCE: "2024-01-31" };
+    try {
+      expect(p.parse([])).toEqual({
+        since: new Date("2024-01-31"),
+        until: new Date("2024-12-31"),
+      });
+    } finally {
+      process.env = env;
+    }
+    expect(p.getHelp()).toContain(
+      `--until <date>  (default: "2024-12-31T00:00:00.000Z")`
+    );
+  });
+
+  test("registerValueType()", () => {
+    const duration = z.custom<number>((value) => typeof value === "number");
+    registerValueType({
+      name: "duration",
+      placeholder: "duration (ex. 10s)",
+      test: (schema) => schema === duration,
+      parse: (value) => {
+        const match = value.match(/^(\d+)(ms|s)$/);
+        if (match === null) {
+          return undefined;
+        }
+        return Number(match[1]) * (match[2] === "s" ? 1000 : 1);
+      },
+    });
+    const p = parser().options({ timeout: { type: duration } });
+    expect(p.parse(["--timeout", "10s"])).toEqual({ timeout: 10000 });
+    expect(p.getHelp()).toContain("--timeout <duration (ex. 10s)>");
+    expect(p.safeParse(["--timeout", "10"])).toEqual(
+      expect.objectContaining({
+        error: new ParseError(
+          "Invalid option value. duration is expected: timeout"
+        ),
+      })
+    );
+  });
+});
+
+describe("aliases", () => {
+  test("short and long aliases", () => {
+    const p = parser()
+      .name("scriptA")
+      .options({
+        output: {
+          type: z.string().optional(),
+          aliases: ["o", "out", "output-file"],
+        },
+        color: { type: z.boolean().default(true), aliases: ["colour"] },
+      });
+    expect(p.parse(["-o", "a"])).toEqual({ output: "a", color: true });
+    expect(p.parse(["--out=b"])).toEqual({ output: "b", color: true });
+    expect(p.parse(["--output-file", "c", "--no-colour"])).toEqual({
+      output: "c",
+      color: false,
+    });
+    expect(p.getHelp()).toContain(
+      "-o, --output, --out, --output-file <string>"
+    );
+    expect(p.getHelp()).toContain("    --color, --colour");
+  });
+
+  test("aliases are suggested", () => {
+    expect(
+      parser()
+        .options({
+          output: { type: z.string().optional(), aliases: ["out"] },
+        })
+        .safeParse(["--outt", "a"])
+    ).toEqual(
+      expect.objectContaining({
+        error: expect.objectContaining({
+          message: expect.stringContaining(
+            "Invalid option: outt. Did you mean --out?"
+          ),
+        }),
+      })
+    );
+  });
+});
+
+describe("allowAbbreviations()", () => {
+  function createParser() {
+    return parser()
+      .options({
+        verbose: { type: z.boolean().default(false) },
+        verbatim: { type: z.boolean().default(false) },
+        output: { type: z.string().optional(), aliases: ["out-file"] },
+        color: { type: z.boolean().default(true) },
+      })
+      .allowAbbreviations();
+  }
+
+  test("unique prefixes of long names", () => {
+    const p = createParser();
+    expect(p.parse(["--verbo", "--outp", "a"])).toEqual({
+      verbose: true,
+      verbatim: false,
+      output: "a",
+      color: true,
+    });
+    expect(p.parse(["--out-f=b", "--no-col"])).toEqual({
+      verbose: false,
+      verbatim: false,
+      output: "b",
+      color: false,
+    });
+  });
+
+  test("ambiguous prefixes", () => {
+    const p = createParser();
+    const result = p.safeParse(["--verb"]);
+    expect(result).toEqual(
+      expect.objectContaining({
+        error: new ParseError(
+          "Ambiguous option: verb. Did you mean --verbose or --verbatim?"
+        ),
+      })
+    );
+    expect(result.type === "error" && result.error).toEqual(
+      expect.objectContaining({
+        code: "AMBIGUOUS_OPTION",
+        optionName: "verb",
+        suggestions: ["--verbose", "--verbatim"],
+      })
+    );
+    expect(p.safeParse(["--no-verb"])).toEqual(
+      expect.objectContaining({
+        error: new ParseError(
+          "Ambiguous option: no-verb. Did you mean --no-verbose or --no-verbatim?"
+        ),
+      })
+    );
+  });
+
+  test("disabled by default", () => {
+    expect(
+      parser()
+        .options({ verbose: { type: z.boolean().default(false) } })
+        .safeParse(["--verbo"])
+    ).toEqual(
+      expect.objectContaining({
+        error: new ParseError("Invalid option: verbo. Did you mean --verbose?"),
+      })
+    );
+  });
+});
+
+describe("option relations", () => {
+  test("conflicts", () => {
+    const p = parser().options({
+      json: { type: z.boolean().optional(), conflicts: ["yaml"] },
+      yaml: { type: z.boolean().optional(), conflicts: ["json"] },
+    });
+    expect(p.parse(["--json"])).toEqual({ json: true, yaml: undefined });
+    const result = p.safeParse(["--json", "--yaml"]);
+    expect(result).toEqual(
+      expect.objectContaining({
+        error: new ParseError("Options cannot be used together: json, yaml"),
+      })
+    );
+    expect(result.type === "error" && result.error).toEqual(
+      expect.objectContaining({
+        code: "CONFLICTING_OPTIONS",
+        optionName: "json",
+        relatedOptionNames: ["yaml"],
+      })
+    );
+    expect(p.getHelp()).toContain("--json  [conflicts: --yaml]");
+  });
+
+  test("requires", () => {
+    const p = parser().options({
+      user: { type: z.string().optional() },
+      password: { type: z.string().optional(), requires: ["user"] },
+    });
+    expect(p.parse(["--user", "u", "--password", "p"])).toEqual({
+      user: "u",
+      password: "p",
+    });
+    expect(p.safeParse(["--password", "p"])).toEqual(
+      expect.objectContaining({
+        error: expect.objectContaining({
+          code: "MISSING_DEPENDENT_OPTION",
+          message: "Option 'password' requires: user",
+          relatedOptionNames: ["user"],
+        }),
+      })
+    );
+    expect(p.getHelp()).toContain("--password <string>  [requires: --user]");
+  });
+
+  test("values from environment variables are specified", () => {
+    const p = parser().options({
+      user: { type: z.string().optional(), env: "USER_NAME" },
+      password: { type: z.string().optional(), requires: ["user"] },
+    });
+    const env = process.env;
+    process.env = { ...env, USER_NAME: "u" };
+    try {
+      expect(p.parse(["--password", "p"])).toEqual({
+        user: "u",
+        password: "p",
+      });
+    } finally {
+      process.env = env;
+    }
+  });
+
+  test("implies", () => {
+    const p = parser().options({
+      ci: { type: z.boolean().optional(), implies: { color: false } },
+      color: { type: z.boolean().default(true) },
+    });
+    expect(p.parse([])).toEqual({ ci: undefined, color: true });
+    expect(p.parse(["--ci"])).toEqual({ ci: true, color: false });
+    // specified values take precedence
+    expect(p.parse(["--ci", "--color"])).toEqual({ ci: true, color: true });
+    expect(p.getHelp()).toContain("--ci     [implies: --color]");
+  });
+
+  test("implied values satisfy required options", () => {
+    const p = parser().options({
+      fast: { type: z.boolean().optional(), implies: { level: 1 } },
+      level: { type: z.number() },
+    });
+    expect(p.parse(["--fast"])).toEqual({ fast: true, level: 1 });
+    expect(p.safeParse(["--no-fast"])).toEqual(
+      expect.objectContaining({
+        error: new ParseError("Required option is missing: level"),
+      })
+    );
+  });
+
+  test("exactlyOneOf()", () => {
+    const p = parser()
+      .options({
+        file: { type: z.string().optional() },
+        url: { type: z.string().optional() },
+      })
+      .exactlyOneOf(["file", "url"]);
+    expect(p.parse(["--file", "a"])).toEqual({ file: "a", url: undefined });
+    expect(p.safeParse([])).toEqual(
+      expect.objectContaining({
+        error: expect.objectContaining({
+          code: "MISSING_OPTION_GROUP",
+          message: "One of the options is required: file, url",
+        }),
+      })
+    );
+    expect(p.safeParse(["--file", "a", "--url", "b"])).toEqual(
+      expect.objectContaining({
+        error: new ParseError("Options cannot be used together: file, url"),
+      })
+    );
+    expect(p.getHelp()).toContain(
+      "--file <string>  [exactly one of: --file, --url]"
+    );
+  });
+
+  test("atLeastOneOf()", () => {
+    const p = parser()
+      .options({
+        file: { type: z.array(z.string()).optional() },
+        url: { type: z.array(z.string()).optional() },
+      })
+      .atLeastOneOf(["file", "url"]);
+    expect(p.parse(["--file", "a", "--url", "b"])).toEqual({
+      file: ["a"],
+      url: ["b"],
+    });
+    expect(p.safeParse([])).toEqual(
+      expect.objectContaining({
+        error: new ParseError("One of the options is required: file, url"),
+      })
+    );
+    expect(p.getHelp()).toContain("[at least one of: --file, --url]");
+  });
+
+  test("false values are not specified", () => {
+    const p = parser()
+      .options({
+        json: {
+          type: z.boolean().optional(),
+          conflicts: ["yaml"],
+          env: "JSON",
+        },
+        yaml: { type: z.boolean().optional() },
+        verbose: { type: z.boolean().optional() },
+        debug: { type: z.boolean().optional(), requires: ["verbose"] },
+      })
+      .exactlyOneOf(["json", "yaml"]);
+    expect(p.parse(["--no-json", "--yaml"])).toEqual({
+      json: false,
+      yaml: true,
+      verbose: undefined,
+      debug: undefined,
+    });
+    const env = process.env;
+    process.env = { ...env, JSON: "false" };
+    try {
+      expect(p.parse(["--yaml"])).toEqual(
+        expect.objectContaining({ json: false, yaml: true })
+      );
+    } finally {
+      process.env = env;
+    }
+    expect(p.safeParse(["--no-json", "--no-yaml"])).toEqual(
+      expect.objectContaining({
+        error: new ParseError("One of the options is required: json, yaml"),
+      })
+    );
+    expect(p.safeParse(["--yaml", "--no-verbose", "--debug"])).toEqual(
+      expect.objectContaining({
+        error: new ParseError("Option 'debug' requires: verbose"),
+      })
+    );
+    expect(p.parse(["--yaml", "--no-debug"])).toEqual(
+      expect.objectContaining({ debug: false })
+    );
+  });
+
+  test("all problems are reported at once", () => {
+    expect(
+      parser()
+        .options({
+          json: { type: z.boolean().optional(), conflicts: ["yaml"] },
+          yaml: { type: z.boolean().optional() },
+          user: { type: z.string().optional() },
+          password: { type: z.string().optional(), requires: ["user"] },
+        })
+        .safeParse(["--json", "--yaml", "--password", "p"])
+    ).toEqual(
+      expect.objectContaining({
+        error: new ParseError(
+          "Options cannot be used together: json, yaml\nOption 'password' requires: user"
+        ),
+      })
+    );
+  });
+});
+
+describe("count options", () => {
+  test("occurrences are counted", () => {
+    const p = parser()
+      .name("scriptA")
+      .options({
+        verbose: { type: z.number().default(0), count: true, alias: "v" },
+        quiet: { type: z.boolean().default(false), alias: "q" },
+      });
+    expect(p.parse([])).toEqual({ verbose: 0, quiet: false });
+    expect(p.parse(["-v", "-v"])).toEqual({ verbose: 2, quiet: false });
+    expect(p.parse(["-vvv"])).toEqual({ verbose: 3, quiet: false });
+    expect(p.parse(["-vqv"])).toEqual({ verbose: 2, quiet: true });
+    expect(p.parse(["--verbose", "--verbose"])).toEqual({
+      verbose: 2,
+      quiet: false,
+    });
+    expectTypeOf(p.parse([])).toEqualTypeOf<{
+      verbose: number;
+      quiet: boolean;
+    }>();
+    expect(p.getHelp()).toContain("-v, --verbose  (default: 0)");
+  });
+
+  test("value is not accepted", () => {
+    expect(
+      parser()
+        .options({
+          verbose: { type: z.number().default(0), count: true },
+        })
+        .safeParse(["--verbose=2"])
+    ).toEqual(
+      expect.objectContaining({
+        error: expect.objectContaining({
+          code: "UNEXPECTED_COUNT_VALUE",
+          optionName: "verbose",
+          message:
+            "Count option 'verbose' does not take value. Repeat it instead: verbose",
+        }),
+      })
+    );
+  });
+
+  test("environment variable", () => {
+    const p = parser().options({
+      verbose: { type: z.number().default(0), count: true, env: "VERBOSE" },
+    });
+    const env = process.env;
+    process.env = { ...env, VERBOSE: "2" };
+    try {
+      expect(p.parse([])).toEqual({ verbose: 2 });
+    } finally {
+      process.env = env;
+    }
+  });
+
+  test("count option must be number", () => {
+    expect(() => {
+      parser()
+        .options({
+          verbose: { type: z.boolean().default(false), count: true },
+        })
+        .parse([]);
+    }).toThrow("Count option must be number type: verbose");
+  });
+});
+
+describe("tuple options", () => {
+  test("values of elements", () => {
+    const p = parser()
+      .name("scriptA")
+      .options({
+        point: { type: z.tuple([z.number(), z.number()]), alias: "p" },
+        label: { type: z.tuple([z.string(), z.number()]).optional() },
+      })
+      .args([{ name: "file", type: z.string() }]);
+    const parsed = p.parse(["--point", "3", "-4", "--label", "a", "1", "f"]);
+    expect(parsed).toEqual({ point: [3, -4], label: ["a", 1], file: "f" });
+    expectTypeOf(parsed).toEqualTypeOf<{
+      point: [number, number];
+      label?: [string, number];
+      file: string;
+    }>();
+    expect(p.getHelp()).toContain("-p, --point <number> <number>");
+    expect(p.getHelp()).toContain("--label <string> <number>");
+  });
+
+  test("first element attached to the flag", () => {
+    const p = parser()
+      .options({
+        point: { type: z.tuple([z.number(), z.number()]), alias: "p" },
+      })
+      .args([{ name: "file", type: z.string() }]);
+    expect(p.parse(["--point=3", "4", "f"])).toEqual({
+      point: [3, 4],
+      file: "f",
+    });
+    expect(p.parse(["-p3", "4", "f"])).toEqual({ point: [3, 4], file: "f" });
+  });
+
+  test("missing elements after the attached first element", () => {
+    const p = parser().options({
+      point: { type: z.tuple([z.number(), z.number()]), alias: "p" },
+    });
+    expect(p.safeParse(["--point=3"])).toEqual(
+      expect.objectContaining({
+        error: expect.objectContaining({
+          code: "MISSING_VALUE",
+          arg: "--point=3",
+        }),
+      })
+    );
+    expect(p.safeParse(["-p3"])).toEqual(
+      expect.objectContaining({
+        error: expect.objectContaining({ code: "MISSING_VALUE", arg: "-p3" }),
+      })
+    );
+  });
+
+  test("repeated tuples", () => {
+    const p = parser().options({
+      point: {
+        type: z.array(z.tuple([z.number(), z.number()])),
+        alias: "p",
+      },
+    });
+    const parsed = p.parse(["--point", "1", "2", "-p", "3", "4"]);
+    expect(parsed).toEqual({
+      point: [
+        [1, 2],
+        [3, 4],
+      ],
+    });
+    expectTypeOf(parsed).toEqualTypeOf<{ point: Array<[number, number]> }>();
+    expect(p.getHelp()).toContain("-p, --point <number> <number> ...");
+  });
+
+  test("invalid values", () => {
+    const p = parser().options({
+      point: { type: z.tuple([z.number(), z.number()]) },
+    });
+    expect(p.safeParse(["--point", "3"])).toEqual(
+      expect.objectContaining({
+        error: new ParseError("Option 'point' needs value: point"),
+      })
+    );
+    const result = p.safeParse(["--point", "3", "x"]);
+    expect(result).toEqual(
+      expect.objectContaining({
+        error: new ParseError(
+          "Invalid option value. [number, number] is expected: point"
+        ),
+      })
+    );
+    expect(result.type === "error" && result.error).toEqual(
+      expect.objectContaining({
+        code: "INVALID_OPTION_VALUE",
+        arg: "x",
+        expectedType: "[number, number]",
+      })
+    );
+  });
+
+  test("environment variables", () => {
+    const p = parser().options({
+      point: { type: z.tuple([z.number(), z.number()]), env: "POINT" },
+    });
+    const env = process.env;
+    process.env = { ...env, POINT: "3,4" };
+    try {
+      expect(p.parse([])).toEqual({ point: [3, 4] });
+    } finally {
+      process.env = env;
+    }
+  });
+});
+
+describe("record options", () => {
+  test("key=value pairs", () => {
+    const p = parser()
+      .name("scriptA")
+      .options({
+        define: { type: z.record(z.string(), z.string()), alias: "D" },
+        weight: { type: z.record(z.string(), z.number()).optional() },
+      });
+    const parsed = p.parse([
+      "--define",
+      "FOO=1",
+      "--define=BAR=a=b",
+      "-DBAZ=",
+      "--weight",
+      "a=1.5",
+      "--weight",
+      "b=2",
+    ]);
+    expect(parsed).toEqual({
+      define: { FOO: "1", BAR: "a=b", BAZ: "" },
+      weight: { a: 1.5, b: 2 },
+    });
+    expectTypeOf(parsed).toEqualTypeOf<{
+      define: Record<string, string>;
+      weight?: Record<string, number>;
+    }>();
+    expect(p.getHelp()).toContain("-D, --define <key=value ...>");
+  });
+
+  test("each occurrence takes one pair", () => {
+    const p = parser()
+      .options({ define: { type: z.record(z.string(), z.string()) } })
+      .args([{ name: "task", type: z.string() }]);
+    expect(p.parse(["--define", "A=1", "build"])).toEqual({
+      define: { A: "1" },
+      task: "build",
+    });
+    expect(p.parse(["--define", "A=1", "--define", "B=2", "build"])).toEqual({
+      define: { A: "1", B: "2" },
+      task: "build",
+    });
+  });
+
+  test("__proto__ is rejected as a key", () => {
+    expect(
+      parser()
+        .options({ define: { type: z.record(z.string(), z.string()) } })
+        .safeParse(["--define", "__proto__=x", "--define", "A=1"])
+    ).toEqual(
+      expect.objectContaining({
+        error: expect.objectContaining({
+          code: "INVALID_OPTION_VALUE",
+          arg: "__proto__=x",
+          optionName: "define",
+        }),
+      })
+    );
+  });
+
+  test("later pairs win on duplicated keys", () => {
+    expect(
+      parser()
+        .options({ define: { type: z.record(z.string(), z.string()) } })
+        .parse(["--define", "FOO=1", "--define", "FOO=2"])
+    ).toEqual({ define: { FOO: "2" } });
+  });
+
+  test("malformed pairs", () => {
+    const result = parser()
+      .options({
+        define: { type: z.record(z.string(), z.string()) },
+        weight: { type: z.record(z.string(), z.number()) },
+      })
+      .safeParse(["--define", "FOO", "--weight", "a=1", "--weight", "b=x"]);
+    expect(result).toEqual(
+      expect.objectContaining({
+        error: new ParseError(
+          "Invalid option value. key=value is expected: define\nInvalid option value. key=number is expected: weight"
+        ),
+      })
+    );
+    expect(
+      result.type === "error" && (result.error as ParseError).errors[1]
+    ).toEqual(
+      expect.objectContaining({
+        code: "INVALID_OPTION_VALUE",
+        arg: "b=x",
+        expectedType: "key=number",
+      })
+    );
+  });
+
+  test("environment variables and defaults", () => {
+    const p = parser()
+      .name("scriptA")
+      .options({
+        define: {
+          type: z.record(z.string(), z.string()).default({ MODE: "dev" }),
+          env: "DEFINE",
+        },
+      });
+    expect(p.parse([])).toEqual({ define: { MODE: "dev" } });
+    const env = process.env;
+    process.env = { ...env, DEFINE: "FOO=1,BAR=2" };
+    try {
+      expect(p.parse([])).toEqual({ define: { FOO: "1", BAR: "2" } });
+    } finally {
+      process.env = env;
+    }
+    expect(p.getHelp()).toContain(
+      `--define <key=value ...>  (default: ["MODE=dev"]) [env: DEFINE]`
+    );
+  });
+});
+
+describe("separator", () => {
+  test("values are split by the separator", () => {
+    const p = parser()
+      .name("scriptA")
+      .options({
+        tags: { type: z.array(z.string()), alias: "t", separator: "," },
+        ports: { type: z.array(z.number()).optional(), separator: ":" },
+      })
+      .args([{ name: "file", type: z.string().optional() }]);
+    const parsed = p.parse([
+      "--tags",
+      "a,b",
+      "--tags=c",
+      "-td,e",
+      "--ports",
+      "80:443",
+      "file1",
+    ]);
+    expect(parsed).toEqual({
+      tags: ["a", "b", "c", "d", "e"],
+      ports: [80, 443],
+      file: "file1",
+    });
+    expectTypeOf(parsed).toEqualTypeOf<{
+      tags: string[];
+      ports?: number[];
+      file?: string;
+    }>();
+    expect(p.getHelp()).toContain("-t, --tags <string,...>");
+    expect(p.getHelp()).toContain("--ports <number:...>");
+  });
+
+  test("escaped separator", () => {
+    expect(
+      parser()
+        .options({ tags: { type: z.array(z.string()), separator: "," } })
+        .parse(["--tags", "a\\,b,c"])
+    ).toEqual({ tags: ["a,b", "c"] });
+  });
+
+  test("invalid items", () => {
+    const result = parser()
+      .options({ ports: { type: z.array(z.number()), separator: "," } })
+      .safeParse(["--ports", "80,http"]);
+    expect(result.type === "error" && result.error).toEqual(
+      expect.objectContaining({
+        code: "INVALID_OPTION_VALUE",
+        arg: "http",
+      })
+    );
+  });
+
+  test("record and environment variables", () => {
+    const p = parser().options({
+      define: {
+        type: z.record(z.string(), z.string()).optional(),
+        alias: "D",
+        env: "DEFINE",
+        separator: ";",
+      },
+    });
+    expect(p.parse(["-DA=1;B=2"])).toEqual({ define: { A: "1", B: "2" } });
+    const env = process.env;
+    process.env = { ...env, DEFINE: "A=1,2;B=3" };
+    try {
+      expect(p.parse([])).toEqual({ define: { A: "1,2", B: "3" } });
+    } finally {
+      process.env = env;
+    }
+  });
+
+  test("separator is supported only for array options", () => {
+    expect(() => {
+      parser()
+        .options({ tag: { type: z.string(), separator: "," } })
+        .parse([]);
+    }).toThrow("Separator is supported only for array options: tag");
+  });
+});
+
 describe("options and args are empty or don't exist", () => {
   test("returns {} when options and args don't exist", () => {
     expect(parser().options({}).args([]).parse([])).toEqual({});
@@ -1091,6 +1971,29 @@ describe("format error", () => {
     });
   });
 
+  test("invalid option with suggestion", () => {
+    const result = parser()
+      .options({
+        verbose: { type: z.boolean().default(false) },
+        output: { type: z.string().optional(), alias: "o" },
+        secret: { type: z.string().optional(), hidden: true },
+      })
+      .safeParse(["--verbos"]);
+    expect(result).toEqual({
+      type: "error",
+      error: new ParseError("Invalid option: verbos. Did you mean --verbose?"),
+      help: expect.any(String),
+      exitCode: 1,
+    });
+    if (result.type !== "error") return;
+    expect((result.error as ParseError).suggestions).toEqual(["--verbose"]);
+    expect(
+      parser()
+        .options({ secret: { type: z.string().optional(), hidden: true } })
+        .safeParse(["--secre"])
+    ).toMatchObject({ error: { message: "Invalid option: secre" } });
+  });
+
   test("too many positional arguments", () => {
     expectProcessExit("Too many positional arguments", 1, () => {
       parser().parse(["str1"]);
@@ -1120,6 +2023,163 @@ describe("format error", () => {
         .parse(["--opt1", "str", "--opt1", "str"]);
     });
   });
+
+  test("reports all problems at once", () => {
+    const result = parser()
+      .options({
+        verbose: { type: z.boolean().default(false) },
+        output: { type: z.string() },
+        count: { type: z.number() },
+      })
+      .safeParse(["--verbos", "--count", "abc", "--dryrun"]);
+    expect(result).toMatchObject({
+      type: "error",
+      error: {
+        message: [
+          "Invalid option: verbos. Did you mean --verbose?",
+          "Invalid option: dryrun",
+          "Invalid option value. number is expected: count",
+          "Required option is missing: output",
+        ].join("\n"),
+      },
+    });
+    if (result.type !== "error") return;
+    expect(
+      (result.error as ParseError).errors.map((e) => e.message)
+    ).toHaveLength(4);
+  });
+
+  test("reports every zod issue", () => {
+    const result = parser()
+      .options({
+        name: { type: z.string().min(3) },
+        port: { type: z.number().max(10) },
+      })
+      .safeParse(["--name", "ab", "--port", "20"]);
+    expect(result.type).toBe("error");
+    if (result.type !== "error") return;
+    expect(result.error.message).toMatch(/^.+: name\n.+: port$/);
+    expect((result.error as ParseError).errors).toHaveLength(2);
+  });
+
+  test("errors before --help take precedence", () => {
+    const result = parser()
+      .options({ output: { type: z.string().optional() } })
+      .safeParse(["--opt2", "--opt3", "--help"]);
+    expect(result).toMatchObject({
+      type: "error",
+      error: { message: "Invalid option: opt2\nInvalid option: opt3" },
+    });
+  });
+});
+
+describe("error codes", () => {
+  const base = parser().options({
+    str: { type: z.string().optional() },
+    num: { type: z.number().optional() },
+    flag: { type: z.boolean().default(false) },
+  });
+
+  test.each([
+    [
+      ["--unknown"],
+      "UNKNOWN_OPTION",
+      { optionName: "unknown", arg: "--unknown" },
+    ],
+    [["--str"], "MISSING_VALUE", { optionName: "str", arg: "--str" }],
+    [["--flag=1"], "UNEXPECTED_VALUE", { optionName: "flag", arg: "--flag=1" }],
+    [
+      ["--no-str=a"],
+      "INVALID_NEGATION",
+      { optionName: "str", arg: "--no-str=a" },
+    ],
+    [
+      ["--num", "abc"],
+      "INVALID_OPTION_VALUE",
+      { optionName: "num", arg: "abc", expectedType: "number" },
+    ],
+    [["--str", "a", "--str", "b"], "DUPLICATED_OPTION", { optionName: "str" }],
+    [["pos1"], "TOO_MANY_POSITIONALS", { arg: "pos1" }],
+  ])("%j => %s", (args, code, fields) => {
+    const result = base.safeParse(args);
+    expect(result).toMatchObject({ type: "error", error: { code, ...fields } });
+  });
+
+  test("subclasses", () => {
+    const result = parser()
+      .options({ opt1: { type: z.string() } })
+      .safeParse([]);
+    if (result.type !== "error") throw new Error("expected error");
+    expect(result.error).toBeInstanceOf(OptionError);
+    expect(result.error).toBeInstanceOf(ParseError);
+    expect(result.error).toMatchObject({
+      code: "MISSING_REQUIRED_OPTION",
+      optionName: "opt1",
+    });
+  });
+
+  test("ZOD_VALIDATION and CUSTOM_VALIDATION", () => {
+    const zodResult = parser()
+      .options({ name: { type: z.string().min(3) } })
+      .safeParse(["--name", "ab"]);
+    if (zodResult.type !== "error") throw new Error("expected error");
+    expect(zodResult.error).toBeInstanceOf(ValidationError);
+    expect(zodResult.error).toMatchObject({
+      code: "ZOD_VALIDATION",
+      path: ["name"],
+    });
+
+    const customResult = parser()
+      .options({ name: { type: z.string() } })
+      .validation(() => "invalid name")
+      .safeParse(["--name", "ab"]);
+    expect(customResult).toMatchObject({
+      error: { code: "CUSTOM_VALIDATION", message: "invalid name" },
+    });
+  });
+
+  test("MULTIPLE_ERRORS", () => {
+    const result = base.safeParse(["--unknown", "--num", "abc"]);
+    expect(result).toMatchObject({
+      error: {
+        code: "MULTIPLE_ERRORS",
+        errors: [{ code: "UNKNOWN_OPTION" }, { code: "INVALID_OPTION_VALUE" }],
+      },
+    });
+  });
+
+  test("zod issues are reported with problems of args", () => {
+    const p = parser().options({
+      name: { type: z.string().min(3) },
+      num: { type: z.number().max(5) },
+      level: { type: z.number().max(5).optional() },
+    });
+    expect(
+      p.safeParse(["--unknwn", "--name", "ab", "--num", "9"])
+    ).toMatchObject({
+      error: {
+        code: "MULTIPLE_ERRORS",
+        errors: [
+          { code: "UNKNOWN_OPTION" },
+          { code: "ZOD_VALIDATION", path: ["name"] },
+          { code: "ZOD_VALIDATION", path: ["num"] },
+        ],
+      },
+    });
+    // fields with problems are not reported again by zod
+    const result = p.safeParse(["--name", "ab", "--num", "x"]);
+    expect(result).toMatchObject({
+      error: {
+        errors: [
+          { code: "INVALID_OPTION_VALUE", optionName: "num" },
+          { code: "ZOD_VALIDATION", path: ["name"] },
+        ],
+      },
+    });
+    expect(
+      result.type === "error" && (result.error as ParseError).errors
+    ).toHaveLength(2);
+  });
 });
 
 describe("refine", () => {
@@ -1213,6 +2273,376 @@ describe("custom validation", () => {
   });
 });
 
+describe("parseAsync()", () => {
+  test("resolves parsed args", async () => {
+    const parsed = await parser()
+      .options({
+        opt1: { type: z.number() },
+      })
+      .parseAsync(["--opt1", "5"]);
+    expect(parsed).toEqual({ opt1: 5 });
+    expectTypeOf(parsed).toEqualTypeOf<{ opt1: number }>();
+  });
+
+  test("awaits async custom validation", async () => {
+    const parsed = await parser()
+      .options({
+        opt1: { type: z.number() },
+      })
+      .validation(async (parsed) => {
+        return await Promise.resolve(parsed.opt1 > 1 || "opt1 must be > 1");
+      })
+      .parseAsync(["--opt1", "5"]);
+    expect(parsed).toEqual({ opt1: 5 });
+  });
+
+  test("error by rejected async custom validation", async () => {
+    await expectProcessExitAsync("opt1 must be > 1", 1, async () => {
+      return await parser()
+        .options({
+          opt1: { type: z.number() },
+        })
+        .validation(async () => {
+          throw new Error("opt1 must be > 1");
+        })
+        .parseAsync(["--opt1", "1"]);
+    });
+  });
+
+  test("error on parse", async () => {
+    await expectProcessExitAsync(
+      "Required option is missing: opt1",
+      1,
+      async () => {
+        return await parser()
+          .options({
+            opt1: { type: z.number() },
+          })
+          .parseAsync([]);
+      }
+    );
+  });
+
+  test("parse() throws runtime error on async custom validation", () => {
+    expect(() => {
+      parser()
+        .options({
+          opt1: { type: z.number() },
+        })
+        .validation(async () => true as const)
+        .parse(["--opt1", "1"]);
+    }).toThrow("Async validation is only supported by parseAsync()");
+  });
+});
+
+describe("env", () => {
+  const ENV_NAMES = ["API_TOKEN", "MYAPP_LOG_LEVEL", "MYAPP_VERBOSE"];
+  afterEach(() => {
+    ENV_NAMES.forEach((name) => {
+      delete process.env[name];
+    });
+  });
+
+  test("uses environment variable when option is missing", () => {
+    process.env.API_TOKEN = "token1";
+    const parsed = parser()
+      .options({
+        token: { type: z.string(), env: "API_TOKEN" },
+        count: { type: z.number().default(1) },
+      })
+      .parse([]);
+    expect(parsed).toEqual({ token: "token1", count: 1 });
+  });
+
+  test("argv has priority over environment variable", () => {
+    process.env.API_TOKEN = "token1";
+    const parsed = parser()
+      .options({
+        token: { type: z.string(), env: "API_TOKEN" },
+      })
+      .parse(["--token", "token2"]);
+    expect(parsed).toEqual({ token: "token2" });
+  });
+
+  test("maps option names with envPrefix()", () => {
+    process.env.MYAPP_LOG_LEVEL = "3";
+    process.env.MYAPP_VERBOSE = "true";
+    const parsed = parser()
+      .envPrefix("MYAPP")
+      .options({
+        logLevel: { type: z.number().max(5) },
+        verbose: { type: z.boolean().default(false) },
+      })
+      .parse([]);
+    expect(parsed).toEqual({ logLevel: 3, verbose: true });
+  });
+
+  test("error on invalid environment variable value", () => {
+    process.env.MYAPP_LOG_LEVEL = "high";
+    expectProcessExit(
+      "Invalid environment variable value. number is expected: MYAPP_LOG_LEVEL",
+      1,
+      () => {
+        parser()
+          .envPrefix("MYAPP")
+          .options({
+            logLevel: { type: z.number() },
+          })
+          .parse([]);
+      }
+    );
+  });
+
+  test("zod validates environment variable value", () => {
+    process.env.MYAPP_LOG_LEVEL = "10";
+    expectProcessExit(/logLevel/, 1, () => {
+      parser()
+        .envPrefix("MYAPP")
+        .options({
+          logLevel: { type: z.number().max(5) },
+        })
+        .parse([]);
+    });
+  });
+
+  test("help shows environment variable", () => {
+    const help = parser()
+      .name("scriptA")
+      .envPrefix("MYAPP")
+      .options({
+        token: { type: z.string(), env: "API_TOKEN", description: "token" },
+        logLevel: { type: z.number().default(1) },
+      })
+      .getHelp();
+    expect(help).toContain("token [env: API_TOKEN]");
+    expect(help).toContain("(default: 1) [env: MYAPP_LOG_LEVEL]");
+  });
+});
+
+describe("config()", () => {
+  let dir: string;
+  let configPath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "zod-opts-"));
+    configPath = path.join(dir, "config.json");
+    fs.writeFileSync(configPath, JSON.stringify({ opt1: "config1", opt2: 2 }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const createParser = () =>
+    parser().options({
+      opt1: { type: z.string() },
+      opt2: { type: z.number().default(1) },
+      opt3: { type: z.number().default(3) },
+    });
+
+  test("loads config file given by flag", () => {
+    const parsed = createParser()
+      .config({ flag: "config" })
+      .parse(["--config", configPath, "--opt1", "cli1"]);
+    expect(parsed).toEqual({ opt1: "cli1", opt2: 2, opt3: 3 });
+  });
+
+  test("loads default config file", () => {
+    const parsed = createParser().config({ path: configPath }).parse([]);
+    expect(parsed).toEqual({ opt1: "config1", opt2: 2, opt3: 3 });
+  });
+
+  test("ignores missing default config file", () => {
+    const parsed = createParser()
+      .config({ path: path.join(dir, "missing.json") })
+      .parse(["--opt1", "cli1"]);
+    expect(parsed).toEqual({ opt1: "cli1", opt2: 1, opt3: 3 });
+  });
+
+  test("zod validates values in config file", () => {
+    fs.writeFileSync(configPath, JSON.stringify({ opt1: 1 }));
+    expectProcessExit(/opt1/, 1, () => {
+      createParser().config({ flag: "config" }).parse(["--config", configPath]);
+    });
+  });
+
+  test("error on unknown key in config file", () => {
+    fs.writeFileSync(configPath, JSON.stringify({ opt1: "a", opt4: 1 }));
+    expectProcessExit(
+      `Unknown key in config file (${configPath}): opt4`,
+      1,
+      () => {
+        createParser()
+          .config({ flag: "config" })
+          .parse(["--config", configPath]);
+      }
+    );
+  });
+
+  test("help shows config flag", () => {
+    expect(createParser().config({ flag: "config" }).getHelp()).toContain(
+      "--config <path>"
+    );
+  });
+
+  test("description of config flag is localized", () => {
+    const p = createParser()
+      .config({ flag: "config" })
+      .messages({ configDescription: "設定ファイルのパス" });
+    expect(p.getHelp()).toContain("設定ファイルのパス");
+    expect(p.safeParse(["--help"])).toEqual(
+      expect.objectContaining({
+        help: expect.stringContaining("設定ファイルのパス"),
+      })
+    );
+  });
+
+  test("throws runtime error when flag is used by option", () => {
+    expect(() => {
+      createParser().config({ flag: "opt1" });
+    }).toThrow("Duplicated option flag: --opt1");
+    expect(() => {
+      parser()
+        .config({ flag: "config" })
+        .options({ settings: { type: z.string(), aliases: ["c", "config"] } });
+    }).toThrow("Duplicated option flag: --config");
+    expect(() => {
+      parser().config({ flag: "help" });
+    }).toThrow("Duplicated option flag: --help");
+  });
+});
+
+describe("safeParse()", () => {
+  const createParser = () =>
+    parser()
+      .name("scriptA")
+      .version("1.0.0")
+      .options({
+        opt1: { type: z.number() },
+      })
+      .validation((parsed) => parsed.opt1 > 1 || "opt1 must be > 1");
+
+  test("match", () => {
+    const result = createParser().safeParse(["--opt1", "5"]);
+    expect(result).toEqual({
+      type: "match",
+      parsed: { opt1: 5 },
+      help: expect.stringContaining("Usage: scriptA"),
+    });
+    if (result.type === "match") {
+      expectTypeOf(result.parsed).toEqualTypeOf<{ opt1: number }>();
+    }
+  });
+
+  test("error", () => {
+    expect(createParser().safeParse(["--opt1", "a"])).toEqual({
+      type: "error",
+      error: new ParseError("Invalid option value. number is expected: opt1"),
+      help: expect.stringContaining("Usage: scriptA"),
+      exitCode: 1,
+    });
+    expect(createParser().safeParse(["--opt1", "1"])).toEqual({
+      type: "error",
+      error: new ParseError("opt1 must be > 1"),
+      help: expect.stringContaining("Usage: scriptA"),
+      exitCode: 1,
+    });
+  });
+
+  test("help and version", () => {
+    expect(createParser().safeParse(["--help"])).toEqual({
+      type: "help",
+      help: expect.stringContaining("Usage: scriptA"),
+      exitCode: 0,
+    });
+    expect(createParser().safeParse(["--version"])).toEqual({
+      type: "version",
+      help: expect.stringContaining("Usage: scriptA"),
+      exitCode: 0,
+    });
+  });
+});
+
+describe("deprecated", () => {
+  const createParser = (stderr: (text: string) => void = () => {}) =>
+    parser()
+      .name("scriptA")
+      .options({
+        output: { type: z.string().optional(), renamedFrom: "out" },
+        format: { type: z.string().optional(), deprecated: "use --output" },
+      })
+      .output({ stderr });
+
+  test("renamed option is parsed with warning", () => {
+    const stderr = jest.fn();
+    expect(createParser(stderr).parse(["--out", "a.txt"])).toEqual({
+      output: "a.txt",
+    });
+    expect(stderr.mock.calls).toEqual([
+      ["Warning: Option --out is renamed to --output"],
+    ]);
+  });
+
+  test("deprecated option is parsed with warning", () => {
+    const stderr = jest.fn();
+    expect(createParser(stderr).parse(["--format", "json"])).toEqual({
+      format: "json",
+    });
+    expect(stderr.mock.calls).toEqual([
+      ["Warning: Option --format is deprecated: use --output"],
+    ]);
+  });
+
+  test("no warning without deprecated options", () => {
+    const stderr = jest.fn();
+    createParser(stderr).parse(["--output", "a.txt"]);
+    expect(stderr).not.toHaveBeenCalled();
+  });
+
+  test("safeParse() returns warnings", () => {
+    expect(createParser().safeParse(["--out", "a.txt"])).toEqual({
+      type: "match",
+      parsed: { output: "a.txt" },
+      help: expect.stringContaining("Usage: scriptA"),
+      warnings: ["Option --out is renamed to --output"],
+    });
+  });
+
+  test("help", () => {
+    expect(createParser().getHelp()).toContain(
+      "--format <string>  [deprecated]"
+    );
+  });
+});
+
+describe("hidden", () => {
+  const createParser = () =>
+    parser()
+      .name("scriptA")
+      .options({
+        opt1: { type: z.string() },
+        debug: { type: z.boolean().default(false), hidden: true },
+      });
+
+  test("hidden option is parsed", () => {
+    expect(createParser().parse(["--opt1", "str1", "--debug"])).toEqual({
+      opt1: "str1",
+      debug: true,
+    });
+  });
+
+  test("hidden option is shown only by --help-all", () => {
+    const help = createParser().safeParse(["--help"]);
+    expect(help.type).toBe("help");
+    expect(help.help).not.toContain("--debug");
+    expect(help.help).toContain("--help-all");
+
+    const helpAll = createParser().safeParse(["--help-all"]);
+    expect(helpAll.type).toBe("help");
+    expect(helpAll.help).toContain("--debug");
+  });
+});
+
 describe("help", () => {
   test("show help", () => {
     const expectedHelp = `Usage: scriptA [options] <pos1> <pos2> [pos3]
@@ -1326,24 +2756,44 @@ describe("version", () => {
 });
 
 describe("unsupported zod types", () => {
-  test("zod literal is not supported", () => {
+  test("zod boolean literal is not supported", () => {
     expect(() => {
       parser()
         .options({
-          opt1: { type: z.literal(1) },
+          opt1: { type: z.literal(true) },
         })
         .parse(["--opt1", "1"]);
     }).toThrow(/Unsupported zod type: (ZodLiteral|literal)/);
   });
 
-  test("zod date is not supported", () => {
+  test("zod object is not supported", () => {
+    expect(() => {
+      parser()
+        .options({
+          opt1: { type: z.object({}) },
+        })
+        .parse(["--opt1", "1"]);
+    }).toThrow(/Unsupported zod type: object/);
+  });
+
+  test("zod tuple of boolean is not supported", () => {
+    expect(() => {
+      parser()
+        .options({
+          opt1: { type: z.tuple([z.string(), z.boolean()]) },
+        })
+        .parse(["--opt1", "a", "true"]);
+    }).toThrow(/Unsupported zod type: Tuple of boolean/);
+  });
+
+  test("zod record of boolean is not supported", () => {
     expect(() => {
       parser()
         .options({
-          opt1: { type: z.date() },
+          opt1: { type: z.record(z.string(), z.boolean()) },
         })
-        .parse(["--opt1", "2022-01-12T00:00:00.000Z"]);
-    }).toThrow(/Unsupported zod type: (ZodDate|date)/);
+        .parse(["--opt1", "a=true"]);
+    }).toThrow(/Unsupported zod type: Record of boolean/);
   });
 });
 
@@ -1381,7 +2831,9 @@ describe("_internalHandler()", () => {
         ._internalHandler((result) => {
           expect(result).toEqual({
             type: "error",
-            error: new ParseError("Invalid option: -invalid=10"),
+            error: new ParseError(
+              "Invalid option: -invalid=10\nRequired option is missing: opt1"
+            ),
             exitCode: 1,
             help: expect.stringContaining("Usage: scriptNameA"),
           });
@@ -1,6 +1,7 @@
 import { z } from "zod";
 
 import { command } from "../src/command";
+import { ExitError } from "../src/error";
 import { parser } from "../src/parser";
 import { mockConsole } from "./test_util";
 
@@ -35,6 +36,40 @@ Options:
       .getHelp();
     expect(help).toEqual(expectedHelp);
   });
+
+  test("helpWidth()", () => {
+    const help = parser()
+      .name("scriptA")
+      .description("description which is longer than the help width")
+      .helpWidth(30)
+      .getHelp();
+    expect(help).toContain("description which is longer\nthan the help width");
+  });
+
+  test("option groups", () => {
+    const expectedHelp = `Usage: scriptA [options] 
+
+Options:
+  -h, --help           Show help            
+
+Networking:
+      --host <string>             [required]
+      --port <number>             [required]
+
+Auth:
+      --user <string>             [required]
+`;
+    const help = parser()
+      .name("scriptA")
+      .options({
+        user: { type: z.string(), group: "Auth" },
+        host: { type: z.string(), group: "Networking" },
+        port: { type: z.number(), group: "Networking" },
+      })
+      .groupOrder(["Networking", "Auth"])
+      .getHelp();
+    expect(help).toEqual(expectedHelp);
+  });
 });
 
 describe("showHelp()", () => {
@@ -46,6 +81,254 @@ describe("showHelp()", () => {
   });
 });
 
+describe("theme()", () => {
+  const env = process.env;
+
+  afterEach(() => {
+    process.env = env;
+  });
+
+  test("plain with NO_COLOR", () => {
+    process.env = { ...env, FORCE_COLOR: "1", NO_COLOR: "1" };
+    const help = parser()
+      .name("scriptA")
+      .theme({ heading: (text) => `*${text}*` })
+      .getHelp();
+    expect(help).toContain("Usage: scriptA [options]");
+  });
+
+  test("styles help and errors with FORCE_COLOR", () => {
+    process.env = { ...env, FORCE_COLOR: "1", NO_COLOR: undefined };
+    const stderr: string[] = [];
+    expect(() => {
+      parser()
+        .name("scriptA")
+        .options({ opt1: { type: z.string() } })
+        .theme({
+          heading: (text) => `*${text}*`,
+          error: (text) => `!${text}!`,
+        })
+        .output({ stderr: (text) => stderr.push(text), exit: () => {} })
+        .parse([]);
+    }).toThrow(ExitError);
+    expect(stderr[0]).toBe("!Required option is missing: opt1!\n");
+    expect(stderr[1]).toContain("*Usage:* scriptA [options]");
+    expect(stderr[1]).toContain("\u001b[36m--opt1\u001b[39m");
+  });
+
+  test("args are not parsed again to style help", () => {
+    process.env = { ...env, FORCE_COLOR: "1", NO_COLOR: undefined };
+    const check = jest.fn((value: string) => value === "valid");
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    const p = parser()
+      .name("scriptA")
+      .options({
+        opt1: { type: z.string().refine(check) },
+        secret: { type: z.boolean().optional(), hidden: true },
+      })
+      .output({
+        stdout: (text) => stdout.push(text),
+        stderr: (text) => stderr.push(text),
+        exit: () => {},
+      });
+    expect(() => p.parse(["--opt1", "invalid"])).toThrow(ExitError);
+    expect(check).toHaveBeenCalledTimes(1);
+    expect(stderr[1]).toContain("\u001b[36m--opt1\u001b[39m");
+    expect(() => p.parse(["--help-all"])).toThrow(ExitError);
+    expect(stdout[0]).toContain("\u001b[36m--secret\u001b[39m");
+  });
+
+  test("help in results stays plain", () => {
+    process.env = { ...env, FORCE_COLOR: "1", NO_COLOR: undefined };
+    const p = parser()
+      .name("scriptA")
+      .options({ opt1: { type: z.string() } });
+    expect(p.getHelp()).not.toContain("\u001b[");
+    expect(p.safeParse([])).toEqual(
+      expect.objectContaining({
+        type: "error",
+        help: expect.not.stringContaining("\u001b[") as unknown,
+      })
+    );
+    const stdout: string[] = [];
+    p.output({ stdout: (text) => stdout.push(text) }).showHelp();
+    expect(stdout[0]).toContain("\u001b[36m--opt1\u001b[39m");
+  });
+
+  test("help is styled by the stream it is written to", () => {
+    process.env = { ...env, FORCE_COLOR: undefined, NO_COLOR: undefined };
+    const isTTY = process.stdout.isTTY;
+    process.stdout.isTTY = true;
+    try {
+      const stderr: string[] = [];
+      const p = parser()
+        .name("scriptA")
+        .options({ opt1: { type: z.string() } })
+        .output({ stderr: (text) => stderr.push(text), exit: () => {} });
+      expect(p.getHelp()).not.toContain("\u001b[");
+      expect(() => p.parse([])).toThrow(ExitError);
+      expect(stderr.join("")).not.toContain("\u001b[");
+    } finally {
+      process.stdout.isTTY = isTTY;
+    }
+  });
+});
+
+describe("messages()", () => {
+  const de = {
+    usage: "Verwendung:",
+    options: "Optionen:",
+    required: "[erforderlich]",
+    helpDescription: "Hilfe anzeigen",
+    defaultValue: (json: string) => `(Standard: ${json})`,
+    missingRequiredOption: (name: string) =>
+      `Erforderliche Option fehlt: ${name}`,
+    unknownOption: (name: string) => `Unbekannte Option: ${name}`,
+    didYouMean: (candidates: string[]) =>
+      candidates.length !== 0 ? `. Meinten Sie ${candidates.join(", ")}?` : "",
+    warning: (text: string) => `Warnung: ${text}`,
+    deprecatedOption: (name: string, reason: string) =>
+      `Option --${name} ist veraltet: ${reason}`,
+  };
+
+  test("translates help", () => {
+    const help = parser()
+      .name("scriptA")
+      .options({
+        opt1: { type: z.string() },
+        num: { type: z.number().default(10) },
+      })
+      .messages(de)
+      .getHelp();
+    expect(help).toBe(`Verwendung: scriptA [options] 
+
+Optionen:
+  -h, --help           Hilfe anzeigen                
+      --opt1 <string>                  [erforderlich]
+      --num <number>   (Standard: 10)                
+`);
+  });
+
+  test("translates errors", () => {
+    const result = parser()
+      .options({
+        opt1: { type: z.string() },
+        verbose: { type: z.boolean().default(false) },
+      })
+      .messages(de)
+      .safeParse(["--verbos"]);
+    expect(result.type).toBe("error");
+    expect(result.type === "error" && result.error.message).toBe(
+      "Unbekannte Option: verbos. Meinten Sie --verbose?\nErforderliche Option fehlt: opt1"
+    );
+  });
+
+  test("translates warnings", () => {
+    const stderr: string[] = [];
+    parser()
+      .options({ old: { type: z.boolean(), deprecated: "use --new" } })
+      .messages(de)
+      .output({ stderr: (text) => stderr.push(text) })
+      .parse(["--old"]);
+    expect(stderr).toEqual(["Warnung: Option --old ist veraltet: use --new"]);
+  });
+
+  test("zodErrorMap translates zod issues", () => {
+    const result = parser()
+      .options({ num: { type: z.number().max(5) } })
+      .messages({
+        zodErrorMap: (issue) =>
+          issue.code === "too_big" ? "Zahl ist zu groß" : undefined,
+        zodIssue: (message, path) => `${path}: ${message}`,
+      })
+      .safeParse(["--num", "10"]);
+    expect(result.type === "error" && result.error.message).toBe(
+      "num: Zahl ist zu groß"
+    );
+  });
+
+  test("choices and defaultValue receive formatted values", () => {
+    const help = parser()
+      .options({
+        mode: { type: z.enum(["a", "b"]).default("a") },
+      })
+      .messages({
+        choices: (values) => `(Auswahl: ${values.join(" | ")})`,
+        defaultValue: (value) => `(Standard: ${value})`,
+      })
+      .getHelp();
+    expect(help).toContain(`(Auswahl: "a" | "b") (Standard: "a")`);
+  });
+
+  test("is inherited by subcommand()", () => {
+    const result = parser()
+      .messages({ missingCommand: "Kein Befehl angegeben" })
+      .subcommand(command("cmd1").action(() => {}))
+      .safeParse([]);
+    expect(result.type === "error" && result.error.message).toBe(
+      "Kein Befehl angegeben"
+    );
+  });
+});
+
+describe("output()", () => {
+  test("writes help to custom stdout and calls custom exit", () => {
+    const stdout: string[] = [];
+    const exitCodes: number[] = [];
+    expect(() => {
+      parser()
+        .name("scriptA")
+        .output({
+          stdout: (text) => stdout.push(text),
+          exit: (exitCode) => exitCodes.push(exitCode),
+        })
+        .parse(["--help"]);
+    }).toThrow(ExitError);
+    expect(stdout.join("")).toContain("Usage: scriptA [options]");
+    expect(exitCodes).toEqual([0]);
+  });
+
+  test("writes error to custom stderr and throws ExitError", () => {
+    const stderr: string[] = [];
+    let error: unknown;
+    try {
+      parser()
+        .options({ opt1: { type: z.string() } })
+        .output({
+          stderr: (text) => stderr.push(text),
+          exit: () => {},
+        })
+        .parse([]);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(ExitError);
+    expect((error as ExitError).exitCode).toBe(1);
+    expect(stderr[0]).toBe("Required option is missing: opt1\n");
+  });
+
+  test("is inherited by subcommand()", () => {
+    const stdout: string[] = [];
+    expect(() => {
+      parser()
+        .output({ stdout: (text) => stdout.push(text), exit: () => {} })
+        .subcommand(command("cmd1").action(() => {}))
+        .parse(["--version"]);
+    }).toThrow(ExitError);
+    expect(stdout).toEqual(["none"]);
+  });
+
+  test("showHelp() writes to custom stdout", () => {
+    const stdout: string[] = [];
+    parser()
+      .name("scriptA")
+      .output({ stdout: (text) => stdout.push(text) })
+      .showHelp();
+    expect(stdout.join("")).toContain("Usage: scriptA [options]");
+  });
+});
+
 describe("options()", () => {
   describe("runtime error", () => {
     test("throws runtime exception on invalid option name", () => {
@@ -60,6 +343,16 @@ describe("options()", () => {
       );
     });
 
+    test("throws runtime exception on invalid env name", () => {
+      expect(() => {
+        parser().options({
+          opt1: { type: z.string(), env: "API-TOKEN" },
+        });
+      }).toThrow(
+        "Invalid environment variable name. Supported pattern is /^[A-Za-z_][A-Za-z0-9_]*$/: API-TOKEN"
+      );
+    });
+
     test("throws runtime exception on invalid alias name", () => {
       expect(() => {
         parser()
@@ -0,0 +1,39 @@
+import { padEndWidth, stringWidth, wrapText } from "../src/string_width";
+
+describe("stringWidth()", () => {
+  test("common", () => {
+    expect(stringWidth("abc")).toBe(3);
+    expect(stringWidth("日本語")).toBe(6);
+    expect(stringWidth("한국어")).toBe(6);
+    expect(stringWidth("ＡＢ")).toBe(4);
+    expect(stringWidth("🚀 go")).toBe(5);
+    expect(stringWidth("é")).toBe(1);
+    expect(stringWidth("\u001b[1mbold\u001b[22m")).toBe(4);
+  });
+});
+
+describe("padEndWidth()", () => {
+  test("common", () => {
+    expect(padEndWidth("日本", 6)).toBe("日本  ");
+    expect(padEndWidth("abc", 2)).toBe("abc");
+  });
+});
+
+describe("wrapText()", () => {
+  test("without width", () => {
+    expect(wrapText("a b c")).toEqual(["a b c"]);
+    expect(wrapText("line1\n\nline2")).toEqual(["line1", "", "line2"]);
+  });
+
+  test("with width", () => {
+    expect(wrapText("aaa bbb ccc", 7)).toEqual(["aaa bbb", "ccc"]);
+    expect(wrapText("aaaaaaaaaa", 4)).toEqual(["aaaa", "aaaa", "aa"]);
+    expect(wrapText("日本語の説明", 5)).toEqual(["日本", "語の", "説明"]);
+    expect(wrapText("para1 text\n\npara2", 5)).toEqual([
+      "para1",
+      "text",
+      "",
+      "para2",
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import {
+  editDistance,
+  formatSuggestions,
+  suggest,
+  suggestCommands,
+  suggestOptions,
+} from "../src/suggest";
+import { createInternalOption } from "./test_util";
+
+describe("editDistance()", () => {
+  test("common", () => {
+    expect(editDistance("abc", "abc")).toBe(0);
+    expect(editDistance("", "abc")).toBe(3);
+    expect(editDistance("verbos", "verbose")).toBe(1);
+    expect(editDistance("kitten", "sitting")).toBe(3);
+    expect(editDistance("biuld", "build")).toBe(1);
+  });
+});
+
+describe("suggest()", () => {
+  test("closest candidates", () => {
+    expect(suggest("verbos", ["verbose", "version", "output"])).toEqual([
+      "verbose",
+    ]);
+    expect(suggest("bat", ["cat", "hat", "bath"])).toEqual([
+      "cat",
+      "hat",
+      "bath",
+    ]);
+    expect(suggest("OUTPT", ["output"])).toEqual(["output"]);
+  });
+
+  test("no suggestions for distant or single character input", () => {
+    expect(suggest("abcdef", ["output"])).toEqual([]);
+    expect(suggest("x", ["y"])).toEqual([]);
+    expect(suggest("abc", [])).toEqual([]);
+  });
+});
+
+describe("suggestOptions()", () => {
+  test("names and aliases", () => {
+    const options = [
+      createInternalOption({ name: "verbose", alias: "v" }),
+      createInternalOption({ name: "output", alias: "out" }),
+    ];
+    expect(suggestOptions(options, "verbsoe")).toEqual(["--verbose"]);
+    expect(suggestOptions(options, "ot")).toEqual(["-out"]);
+  });
+});
+
+describe("suggestCommands()", () => {
+  test("visible commands", () => {
+    const commands = [
+      { name: "build", options: [], positionalArgs: [] },
+      { name: "debug", options: [], positionalArgs: [], hidden: true },
+    ];
+    expect(suggestCommands(commands, "biuld")).toEqual(["build"]);
+    expect(suggestCommands(commands, "debgu")).toEqual([]);
+  });
+});
+
+describe("formatSuggestions()", () => {
+  test("common", () => {
+    expect(formatSuggestions([])).toBe("");
+    expect(formatSuggestions(["--a1", "--a2"])).toBe(
+      ". Did you mean --a1 or --a2?"
+    );
+  });
+});
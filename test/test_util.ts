@@ -51,6 +51,26 @@ export function expectProcessExit(
   mockedExit.mockRestore();
 }
 
+export async function expectProcessExitAsync(
+  expectedMessage: string | RegExp,
+  exitCode: number,
+  f: () => Promise<unknown>
+): Promise<void> {
+  const mockedConsoleError = mockConsole();
+  const mockedExit = mockExit();
+  await expect(f()).rejects.toThrow(/process.exit/);
+
+  const logText = mockedConsoleError.mock.calls.flat().join("");
+  if (typeof expectedMessage === "string") {
+    expect(logText).toContain(expectedMessage);
+  } else {
+    expect(logText).toMatch(expectedMessage);
+  }
+  expect(mockedExit).toHaveBeenCalledWith(exitCode);
+  mockedConsoleError.mockRestore();
+  mockedExit.mockRestore();
+}
+
 export function createInternalOption({
   type = "string",
   name = "opt1",
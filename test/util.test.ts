@@ -3,6 +3,13 @@ import { z } from "zod";
 
 import {
   findDuplicateValues,
+  flattenCommands,
+  resolveHelpWidth,
+  splitBySeparator,
+  splitKeyValue,
+  toEnvName,
+  validateHelpWidth,
+  validateOptionGroup,
   validateParamOptionsAndPositionalArguments,
 } from "../src/util";
 
@@ -27,6 +34,18 @@ describe("util validation", () => {
     }
   });
 
+  test("throws when renamedFrom is used by another option", () => {
+    expect(() => {
+      validateParamOptionsAndPositionalArguments(
+        {
+          output: { type: z.string(), renamedFrom: "out" },
+          out: { type: z.string() },
+        },
+        []
+      );
+    }).toThrow("Duplicated option name: out");
+  });
+
   test("throws on duplicate positional names", () => {
     expect(() => {
       validateParamOptionsAndPositionalArguments({}, [
@@ -44,4 +63,173 @@ describe("util validation", () => {
       );
     }).toThrow(/Duplicated option name with positional argument name/);
   });
+
+  test("throws on duplicated aliases", () => {
+    expect(() => {
+      validateParamOptionsAndPositionalArguments(
+        {
+          output: { type: z.string(), aliases: ["o", "out"] },
+          out: { type: z.string() },
+        },
+        []
+      );
+    }).toThrow("Duplicated option flag: --out");
+    expect(() => {
+      validateParamOptionsAndPositionalArguments(
+        {
+          output: { type: z.string(), aliases: ["o"] },
+          open: { type: z.string(), alias: "o" },
+        },
+        []
+      );
+    }).toThrow("Duplicated option flag: -o");
+  });
+
+  test("throws on aliases used by built-in options", () => {
+    expect(() => {
+      validateParamOptionsAndPositionalArguments(
+        { host: { type: z.string(), aliases: ["h"] } },
+        []
+      );
+    }).toThrow("Duplicated option flag: -h");
+    expect(() => {
+      validateParamOptionsAndPositionalArguments(
+        { ver: { type: z.string(), aliases: ["version"] } },
+        []
+      );
+    }).toThrow("Duplicated option flag: --version");
+  });
+
+  test("throws on invalid aliases", () => {
+    expect(() => {
+      validateParamOptionsAndPositionalArguments(
+        { output: { type: z.string(), aliases: ["-", "out"] } },
+        []
+      );
+    }).toThrow(
+      "Invalid option alias. Supported pattern is /^[A-Za-z0-9_]+$/: -"
+    );
+  });
+
+  test("throws on invalid separators", () => {
+    expect(() => {
+      validateParamOptionsAndPositionalArguments(
+        { tags: { type: z.array(z.string()), separator: "" } },
+        []
+      );
+    }).toThrow(
+      "Separator must be non-empty and must not contain backslash: tags"
+    );
+  });
+
+  test("throws on unknown option names in relations", () => {
+    expect(() => {
+      validateParamOptionsAndPositionalArguments(
+        { json: { type: z.boolean(), conflicts: ["yml"] } },
+        []
+      );
+    }).toThrow("Invalid option name in conflicts of json: yml");
+    expect(() => {
+      validateParamOptionsAndPositionalArguments(
+        { user: { type: z.string(), requires: ["user"] } },
+        []
+      );
+    }).toThrow("Invalid option name in requires of user: user");
+  });
+
+  test("throws on invalid option groups", () => {
+    const options = {
+      file: { type: z.string().optional() },
+      url: { type: z.string().optional() },
+    };
+    expect(() => validateOptionGroup(["file"], options)).toThrow(
+      "Option group needs two or more options"
+    );
+    expect(() => validateOptionGroup(["file", "uri"], options)).toThrow(
+      "Invalid option name in option group: uri"
+    );
+    expect(() => validateOptionGroup(["file", "file"], options)).toThrow(
+      "Duplicated option name in option group: file"
+    );
+  });
+});
+
+describe("toEnvName()", () => {
+  test("common", () => {
+    expect(toEnvName("MYAPP", "logLevel")).toBe("MYAPP_LOG_LEVEL");
+    expect(toEnvName("MYAPP", "log-level")).toBe("MYAPP_LOG_LEVEL");
+    expect(toEnvName("MYAPP", "opt1")).toBe("MYAPP_OPT1");
+  });
+});
+
+describe("flattenCommands()", () => {
+  test("full command paths of descendants", () => {
+    const add = { name: "add", commands: [] };
+    const remote = { name: "remote", commands: [add] };
+    const build = { name: "build", commands: [] };
+    expect(
+      flattenCommands(
+        [remote, build],
+        (command) => command.name,
+        (command) => command.commands
+      )
+    ).toEqual([
+      { commandName: "remote", command: remote },
+      { commandName: "remote add", command: add },
+      { commandName: "build", command: build },
+    ]);
+    expect(
+      flattenCommands(
+        [add],
+        (command) => command.name,
+        (command) => command.commands,
+        ["remote"]
+      )
+    ).toEqual([{ commandName: "remote add", command: add }]);
+  });
+});
+
+describe("splitBySeparator()", () => {
+  test("common", () => {
+    expect(splitBySeparator("a,b,c", ",")).toEqual(["a", "b", "c"]);
+    expect(splitBySeparator("a\\,b,c", ",")).toEqual(["a,b", "c"]);
+    expect(splitBySeparator("a::b", "::")).toEqual(["a", "b"]);
+    expect(splitBySeparator("a,,b", ",")).toEqual(["a", "", "b"]);
+    expect(splitBySeparator("a\\b", ",")).toEqual(["a\\b"]);
+  });
+});
+
+describe("splitKeyValue()", () => {
+  test("common", () => {
+    expect(splitKeyValue("FOO=1")).toEqual(["FOO", "1"]);
+    expect(splitKeyValue("URL=a=b")).toEqual(["URL", "a=b"]);
+    expect(splitKeyValue("FOO=")).toEqual(["FOO", ""]);
+    expect(splitKeyValue("FOO")).toBeUndefined();
+    expect(splitKeyValue("=1")).toBeUndefined();
+  });
+});
+
+describe("resolveHelpWidth()", () => {
+  test("override", () => {
+    expect(resolveHelpWidth(40, { COLUMNS: "100" })).toBe(40);
+    expect(resolveHelpWidth(Infinity, { COLUMNS: "100" })).toBe(undefined);
+  });
+
+  test("COLUMNS when stdout is not a terminal", () => {
+    const isTTY = process.stdout.isTTY;
+    process.stdout.isTTY = false;
+    try {
+      expect(resolveHelpWidth(undefined, { COLUMNS: "100" })).toBe(100);
+      expect(resolveHelpWidth(undefined, { COLUMNS: "abc" })).toBe(undefined);
+      expect(resolveHelpWidth(undefined, {})).toBe(undefined);
+    } finally {
+      process.stdout.isTTY = isTTY;
+    }
+  });
+
+  test("validateHelpWidth()", () => {
+    expect(() => validateHelpWidth(0)).toThrow("Invalid help width: 0");
+    expect(() => validateHelpWidth(1.5)).toThrow("Invalid help width: 1.5");
+    expect(() => validateHelpWidth(Infinity)).not.toThrow();
+  });
 });
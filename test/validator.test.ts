@@ -3,6 +3,7 @@ import { parse } from "../src/internal_parser";
 import {
   validate,
   validateCandidateValue,
+  validateEnvValue,
   validatePositionalCandidateValue,
 } from "../src/validator";
 import {
@@ -206,6 +207,36 @@ describe("validate()", () => {
     });
   });
 
+  test("falls back to environment variable", () => {
+    const params = {
+      options: [
+        { ...createInternalOption({ name: "opt1" }), envName: "OPT1" },
+        {
+          ...createInternalOption({ name: "opt2", type: "number" }),
+          envName: "OPT2",
+        },
+      ],
+      positionalArgs: [],
+      args: ["--opt1", "opt_str1"],
+    };
+    const parsed = parse(params);
+    expect(
+      validate(parsed, params.options, params.positionalArgs, {
+        OPT1: "env_str1",
+        OPT2: "10",
+      })
+    ).toEqual({
+      options: [
+        { name: "opt1", value: "opt_str1" },
+        { name: "opt2", value: 10 },
+      ],
+      positionalArgs: [],
+    });
+    expect(() =>
+      validate(parsed, params.options, params.positionalArgs, {})
+    ).toThrow("Required option is missing: opt2");
+  });
+
   test("throws on unknown option", () => {
     const params = {
       options: [createInternalOption({ name: "known" })],
@@ -223,4 +254,57 @@ describe("validate()", () => {
     };
     expect(() => parse(params)).toThrow(ParseError);
   });
+
+  test("reports all problems", () => {
+    const params = {
+      options: [
+        createInternalOption({ name: "opt1", type: "number" }),
+        createInternalOption({ name: "opt2", alias: "b" }),
+      ],
+      positionalArgs: [createInternalPositionalArgument({ name: "pos1" })],
+      args: ["--opt1", "str"],
+    };
+    expect(() =>
+      validate(parse(params), params.options, params.positionalArgs, {})
+    ).toThrow(
+      [
+        "Invalid option value. number is expected: opt1",
+        "Required option is missing: opt2",
+        "Required argument is missing: pos1",
+      ].join("\n")
+    );
+  });
+});
+
+describe("validateEnvValue()", () => {
+  test("valid", () => {
+    expect(
+      validateEnvValue(createInternalOption({ type: "string" }), "A", "str")
+    ).toEqual({ value: "str" });
+    expect(
+      validateEnvValue(createInternalOption({ type: "number" }), "A", "-1.5")
+    ).toEqual({ value: -1.5 });
+    expect(
+      validateEnvValue(createInternalOption({ type: "boolean" }), "A", "TRUE")
+    ).toEqual({ value: true });
+    expect(
+      validateEnvValue(createInternalOption({ type: "boolean" }), "A", "0")
+    ).toEqual({ value: false });
+    expect(
+      validateEnvValue(
+        createInternalOption({ type: "number", isArray: true }),
+        "A",
+        "1,2"
+      )
+    ).toEqual({ value: [1, 2] });
+  });
+
+  test("invalid", () => {
+    expect(() =>
+      validateEnvValue(createInternalOption({ type: "number" }), "A", "str")
+    ).toThrow("Invalid environment variable value. number is expected: A");
+    expect(() =>
+      validateEnvValue(createInternalOption({ type: "boolean" }), "A", "maybe")
+    ).toThrow("Invalid environment variable value. boolean is expected: A");
+  });
 });
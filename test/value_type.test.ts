@@ -0,0 +1,77 @@
+import { z } from "zod";
+
+import {
+  convertValue,
+  findValueType,
+  formatValue,
+  isValidValue,
+  registerValueType,
+  resetValueTypes,
+} from "../src/value_type";
+
+describe("findValueType()", () => {
+  test("built-in value types", () => {
+    expect(findValueType(z.date())?.name).toBe("date");
+    expect(findValueType(z.bigint())?.name).toBe("bigint");
+    expect(findValueType(z.string().url())?.name).toBe("url");
+    expect(findValueType(z.string())).toBe(undefined);
+    expect(findValueType(z.string().email())).toBe(undefined);
+  });
+});
+
+describe("date", () => {
+  test("accepts ISO dates only", () => {
+    expect(isValidValue("date", "2024-01-31")).toBe(true);
+    expect(isValidValue("date", "2024-01-31T09:00")).toBe(true);
+    expect(isValidValue("date", "2024-01-31T09:00:00.123+09:00")).toBe(true);
+    expect(isValidValue("date", "2024-13-01")).toBe(false);
+    expect(isValidValue("date", "Jan 31 2024")).toBe(false);
+    expect(isValidValue("date", "1706659200000")).toBe(false);
+  });
+
+  test("formatValue()", () => {
+    expect(formatValue("date", new Date("2024-01-31"))).toBe(
+      "2024-01-31T00:00:00.000Z"
+    );
+  });
+});
+
+describe("convertValue()", () => {
+  test("converts strings and keeps the others for zod", () => {
+    expect(convertValue("bigint", "10")).toEqual(BigInt(10));
+    expect(convertValue("bigint", ["1", "2"])).toEqual([BigInt(1), BigInt(2)]);
+    expect(convertValue("bigint", "abc")).toBe("abc");
+    expect(convertValue("bigint", 10)).toBe(10);
+  });
+});
+
+describe("registerValueType()", () => {
+  afterEach(() => {
+    resetValueTypes();
+  });
+
+  const upperDate = {
+    name: "date",
+    test: (schema: unknown) => schema instanceof z.ZodDate,
+    parse: (value: string) => new Date(value),
+    format: (value: Date) => value.toISOString().toUpperCase(),
+  };
+
+  test("returns a function to remove the registration", () => {
+    const unregister = registerValueType(upperDate);
+    expect(formatValue("date", new Date("2024-01-31"))).toBe(
+      "2024-01-31T00:00:00.000Z".toUpperCase()
+    );
+    expect(isValidValue("date", "Jan 31 2024")).toBe(true);
+    unregister();
+    // the built-in date is used again
+    expect(isValidValue("date", "Jan 31 2024")).toBe(false);
+  });
+
+  test("resetValueTypes() keeps the built-in value types only", () => {
+    registerValueType({ ...upperDate, name: "upper" });
+    expect(findValueType(z.date())?.name).toBe("upper");
+    resetValueTypes();
+    expect(findValueType(z.date())?.name).toBe("date");
+  });
+});
@@ -558,6 +558,70 @@ describe("optionToInternal()", () => {
     });
   });
 
+  describe("tuple", () => {
+    test("array of tuples", () => {
+      expect(
+        optionToInternal(
+          createOption({
+            type: z
+              .array(z.tuple([z.string(), z.number()]))
+              .default([["a", 1]]),
+          }),
+          "name1"
+        )
+      ).toEqual({
+        type: "string",
+        name: "name1",
+        alias: "a",
+        description: "description1",
+        required: false,
+        defaultValue: [["a", 1]],
+        isArray: true,
+        tupleTypes: ["string", "number"],
+      });
+    });
+
+    test("throws on rest elements", () => {
+      expect(() =>
+        optionToInternal(
+          createOption({ type: z.tuple([z.number()]).rest(z.number()) }),
+          "name1"
+        )
+      ).toThrow(new Error("Unsupported zod type: tuple with rest"));
+    });
+  });
+
+  describe("record", () => {
+    test("default record option", () => {
+      expect(
+        optionToInternal(
+          createOption({
+            type: z.record(z.string(), z.number()).default({ a: 1 }),
+          }),
+          "name1"
+        )
+      ).toEqual({
+        type: "number",
+        name: "name1",
+        alias: "a",
+        description: "description1",
+        required: false,
+        defaultValue: ["a=1"],
+        isArray: true,
+        isRecord: true,
+      });
+    });
+
+    test("throws when key type is not string", () => {
+      expect(() =>
+        optionToInternal(
+          createOption({ type: z.record(z.enum(["a"]), z.string()) }),
+          "name1"
+        )
+      ).toThrow(new Error("Unsupported zod type: Record key of enum"));
+    });
+  });
+
   describe("throw runtime error on unsupported default value", () => {
     test("invalid type", () => {
       expect(() => {
@@ -597,7 +661,7 @@ describe("optionToInternal()", () => {
     test("enum values from entries map", () => {
       const fakeEnum = makeFakeSchema({
         typeName: "ZodEnum",
-        entries: { a: 1, b: 2 },
+        entries: { A: "a", B: "b" }, // values are used like native enums
       });
       expect(
         optionToInternal(